@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import nacl from 'tweetnacl';
+import { getNoteStore } from '@/lib/storage';
+import { ATTACHMENT_CHUNK_SIZE, UPLOAD_TOKEN_HEADER } from '@/lib/crypto';
+import { limitByIp } from '@/lib/rateLimit';
+import { generatedId, integerString, object, parseParams } from '@/lib/validation';
+
+// A sealed chunk is at most one plaintext chunk plus the secretbox MAC
+const MAX_CHUNK_BYTES = ATTACHMENT_CHUNK_SIZE + nacl.secretbox.overheadLength;
+
+const paramsSchema = object({ id: generatedId(), index: integerString({ min: 0 }) });
+
+// Read a request body of at most maxBytes, or null if it is larger
+// An oversized Content-Length is refused up front, and the stream is
+// cancelled as soon as it passes the limit, so a large body is never
+// buffered whole
+async function readBody(request: NextRequest, maxBytes: number): Promise<Buffer | null> {
+  if (Number(request.headers.get('content-length')) > maxBytes) return null;
+  if (!request.body) return Buffer.alloc(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; index: string }> }
+) {
+  try {
+    const limited = limitByIp(request, 'upload-chunk');
+    if (limited) return limited;
+
+    const parsedParams = await parseParams(params, paramsSchema);
+    if (!parsedParams.ok) return parsedParams.response;
+    const { id, index: chunkIndex } = parsedParams.value;
+
+    const attachment = getNoteStore().getAttachment(id);
+
+    // Only the uploader holds the token, and only until the note is created
+    if (
+      !attachment ||
+      attachment.status !== 'pending' ||
+      request.headers.get(UPLOAD_TOKEN_HEADER) !== attachment.uploadToken
+    ) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (chunkIndex >= attachment.chunkCount) {
+      return NextResponse.json(
+        { error: 'Invalid chunk index' },
+        { status: 400 }
+      );
+    }
+
+    const data = await readBody(request, MAX_CHUNK_BYTES);
+    if (!data || data.length < nacl.secretbox.overheadLength) {
+      return NextResponse.json(
+        { error: 'Invalid chunk size' },
+        { status: 400 }
+      );
+    }
+
+    getNoteStore().saveAttachmentChunk(id, chunkIndex, data);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error uploading attachment chunk:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload attachment chunk' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; index: string }> }
+) {
+  try {
+    const limited = limitByIp(request, 'download-chunk');
+    if (limited) return limited;
+
+    const parsedParams = await parseParams(params, paramsSchema);
+    if (!parsedParams.ok) return parsedParams.response;
+    const { id, index: chunkIndex } = parsedParams.value;
+
+    const attachment = getNoteStore().getAttachment(id);
+
+    // Pending uploads are not readable yet, and attachments of an expired
+    // note go with it
+    if (
+      !attachment ||
+      attachment.status === 'pending' ||
+      (attachment.status === 'attached' && (!attachment.noteId || !getNoteStore().getNote(attachment.noteId)))
+    ) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = getNoteStore().getAttachmentChunk(id, chunkIndex);
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Chunk not found' },
+        { status: 404 }
+      );
+    }
+
+    // ZERO-KNOWLEDGE: this is a sealed chunk - only the holder of the note
+    // can decrypt it
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching attachment chunk:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch attachment chunk' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import nacl from 'tweetnacl';
+import { getNoteStore } from '@/lib/storage';
+import { config } from '@/lib/config';
+import { ATTACHMENT_CHUNK_SIZE, generateNoteId } from '@/lib/crypto';
+import { limitByIp } from '@/lib/rateLimit';
+import { integer, object, parseBody } from '@/lib/validation';
+
+// How long an upload may stay unattached to a note
+const PENDING_ATTACHMENT_TTL_MS = 60 * 60 * 1000;
+
+// Chunks are fixed-size, so chunkCount bounds the file size
+const createAttachmentSchema = object({
+  chunkCount: integer({ min: 1, max: Math.ceil(config.maxAttachmentBytes / ATTACHMENT_CHUNK_SIZE) }),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const limited = limitByIp(request, 'create-attachment');
+    if (limited) return limited;
+
+    const parsed = await parseBody(request, createAttachmentSchema);
+    if (!parsed.ok) return parsed.response;
+    const { chunkCount } = parsed.value;
+
+    // ZERO-KNOWLEDGE: the server only sees a chunk count - file name,
+    // type and key travel inside the encrypted note
+    const createdAt = Date.now();
+    const attachment = getNoteStore().createAttachment({
+      id: generateNoteId(),
+      uploadToken: Buffer.from(nacl.randomBytes(32)).toString('base64url'),
+      chunkCount,
+      createdAt,
+      expiresAt: createdAt + PENDING_ATTACHMENT_TTL_MS,
+    });
+
+    return NextResponse.json({
+      id: attachment.id,
+      uploadToken: attachment.uploadToken,
+      expiresAt: attachment.expiresAt,
+    });
+  } catch (error) {
+    console.error('Error creating attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to create attachment' },
+      { status: 500 }
+    );
+  }
+}
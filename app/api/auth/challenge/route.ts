@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { issueAuthChallenge } from '@/lib/auth';
+import { limitByIp } from '@/lib/rateLimit';
+import { object, parseQuery, solanaAddress } from '@/lib/validation';
+
+const querySchema = object({ address: solanaAddress() });
+
+export async function GET(request: NextRequest) {
+  try {
+    const limited = limitByIp(request, 'auth-challenge');
+    if (limited) return limited;
+
+    const parsed = parseQuery(request, querySchema);
+    if (!parsed.ok) return parsed.response;
+    const { address } = parsed.value;
+
+    const challenge = issueAuthChallenge(address);
+
+    return NextResponse.json({
+      nonce: challenge.nonce,
+      expiresAt: challenge.expiresAt,
+    });
+  } catch (error) {
+    console.error('Error issuing challenge:', error);
+    return NextResponse.json(
+      { error: 'Failed to issue challenge' },
+      { status: 500 }
+    );
+  }
+}
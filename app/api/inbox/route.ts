@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/storage';
+import { verifyWalletAuth } from '@/lib/auth';
+import { limitByIp, limitByWallet } from '@/lib/rateLimit';
+
+export async function GET(request: NextRequest) {
+  try {
+    const limited = limitByIp(request, 'list-inbox');
+    if (limited) return limited;
+
+    // The inbox reveals who is receiving notes, so it requires a signature
+    const auth = verifyWalletAuth(request, 'list-inbox');
+    if (!auth.ok) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: 401 }
+      );
+    }
+
+    const walletLimited = limitByWallet('list-inbox', auth.walletAddress);
+    if (walletLimited) return walletLimited;
+
+    const notes = getNoteStore().listNotesForRecipient(auth.walletAddress);
+
+    // Metadata only - ciphertext is released by POST /api/notes/[id]/open
+    return NextResponse.json({
+      walletAddress: auth.walletAddress,
+      notes: notes.map((note) => ({
+        id: note.id,
+        mode: note.mode,
+        createdAt: note.createdAt,
+        selfDestruct: note.selfDestruct,
+        maxReads: note.maxReads,
+        currentReads: note.currentReads,
+        unlockAt: note.unlockAt,
+        // Dead man's switch notes only appear once released
+        releasedAt: note.releasedAt,
+        expiresAt: note.expiresAt,
+        keyVersion: note.keyVersion,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching inbox:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch inbox' },
+      { status: 500 }
+    );
+  }
+}
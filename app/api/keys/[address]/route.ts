@@ -1,25 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRegisteredKey } from '@/lib/db';
-import { PublicKey } from '@solana/web3.js';
+import { getKeyStore } from '@/lib/storage';
+import { verifyWalletAuth } from '@/lib/auth';
+import { limitByIp, limitByWallet } from '@/lib/rateLimit';
+import { getRequiredDifficulty } from '@/lib/stamps';
+import { checkInboundPolicy } from '@/lib/policy';
+import { integerString, object, optional, parseParams, parseQuery, solanaAddress } from '@/lib/validation';
+
+const paramsSchema = object({ address: solanaAddress() });
+
+// Current key by default; ?version=N looks up an older rotated key.
+// ?sender=<address> also asks whether that sender is accepted, and must
+// be signed by the sender
+const querySchema = object({
+  version: optional(integerString({ min: 1 })),
+  sender: optional(solanaAddress()),
+});
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ address: string }> }
 ) {
   try {
-    const { address } = await params;
+    const limited = limitByIp(request, 'lookup-key');
+    if (limited) return limited;
 
-    // Validate Solana address
-    try {
-      new PublicKey(address);
-    } catch {
-      return NextResponse.json(
-        { error: 'Invalid Solana address' },
-        { status: 400 }
-      );
-    }
+    const parsedParams = await parseParams(params, paramsSchema);
+    if (!parsedParams.ok) return parsedParams.response;
+    const { address } = parsedParams.value;
+
+    const parsedQuery = parseQuery(request, querySchema);
+    if (!parsedQuery.ok) return parsedQuery.response;
+    const { version, sender } = parsedQuery.value;
 
-    const key = getRegisteredKey(address);
+    const key = version === undefined ? getKeyStore().getRegisteredKey(address) : getKeyStore().getKeyVersion(address, version);
 
     if (!key) {
       return NextResponse.json(
@@ -28,10 +41,62 @@ export async function GET(
       );
     }
 
+    // A revoked current key gets a distinct status so senders stop
+    // encrypting to it until the owner registers a new version
+    if (key.revokedAt && version === undefined) {
+      return NextResponse.json(
+        {
+          error: 'Encryption key revoked; the owner must register a new key',
+          revoked: true,
+          walletAddress: key.walletAddress,
+          version: key.version,
+          scheme: key.scheme,
+          revokedAt: key.revokedAt,
+          revocationReason: key.revocationReason,
+        },
+        { status: 410 }
+      );
+    }
+
+    // The policy mode is public, the sender list is not: only the sender
+    // may learn whether they in particular are accepted, or anyone could
+    // read the list one lookup at a time
+    const settings = getKeyStore().getRecipientSettings(key.walletAddress);
+    let senderAccepted: boolean | null = null;
+    if (sender) {
+      const auth = verifyWalletAuth(request, 'check-inbound-policy', { Recipient: key.walletAddress });
+      if (!auth.ok || auth.walletAddress !== sender) {
+        return NextResponse.json(
+          { error: auth.ok ? 'Signature does not match sender address' : auth.error },
+          { status: 401 }
+        );
+      }
+
+      const walletLimited = limitByWallet('lookup-key', auth.walletAddress);
+      if (walletLimited) return walletLimited;
+
+      senderAccepted = checkInboundPolicy(
+        settings.inboundPolicy,
+        getKeyStore().isPolicySender(key.walletAddress, sender),
+        sender
+      ) === null;
+    }
+
     return NextResponse.json({
       walletAddress: key.walletAddress,
-      encryptionPublicKey: key.encryptionPublicKey,
+      encryptionPublicKey: key.encryptionPublicKey.toString('base64'),
+      version: key.version,
+      scheme: key.scheme,
       registeredAt: key.registeredAt,
+      revoked: key.revokedAt !== null,
+      revokedAt: key.revokedAt,
+      revocationReason: key.revocationReason,
+      // Proof-of-work stamp difficulty notes to this wallet need, and the
+      // part of it the wallet asked for itself
+      powDifficulty: getRequiredDifficulty([key.walletAddress]),
+      recipientPowDifficulty: settings.powDifficulty,
+      inboundPolicy: settings.inboundPolicy,
+      senderAccepted,
     });
   } catch (error) {
     console.error('Error fetching key:', error);
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKeyStore } from '@/lib/storage';
+import { verifyWalletAuth } from '@/lib/auth';
+import { INBOUND_POLICIES, MAX_POLICY_SENDERS } from '@/lib/policy';
+import { limitByIp, limitByWallet } from '@/lib/rateLimit';
+import { array, object, oneOf, optional, parseBody, solanaAddress } from '@/lib/validation';
+
+const inboundPolicySchema = object({
+  walletAddress: solanaAddress(),
+  inboundPolicy: oneOf(INBOUND_POLICIES),
+  senders: optional(array(solanaAddress(), { max: MAX_POLICY_SENDERS }), []),
+});
+
+/**
+ * Read the connected wallet's inbound policy, including its sender list
+ * The list itself is private - GET /api/keys/[address] only tells a
+ * sender, with their signature, whether they are accepted.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const limited = limitByIp(request, 'read-inbound-policy');
+    if (limited) return limited;
+
+    const auth = verifyWalletAuth(request, 'read-inbound-policy');
+    if (!auth.ok) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: 401 }
+      );
+    }
+
+    const walletLimited = limitByWallet('read-inbound-policy', auth.walletAddress);
+    if (walletLimited) return walletLimited;
+
+    const settings = getKeyStore().getRecipientSettings(auth.walletAddress);
+
+    return NextResponse.json({
+      walletAddress: auth.walletAddress,
+      inboundPolicy: settings.inboundPolicy,
+      senders: getKeyStore().getPolicySenders(auth.walletAddress),
+    });
+  } catch (error) {
+    console.error('Error fetching inbound policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch inbound policy' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Set who may send notes to a wallet (see lib/policy.ts)
+ * `senders` is the allow-list or block-list, depending on the policy.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = limitByIp(request, 'set-inbound-policy');
+    if (limited) return limited;
+
+    const parsed = await parseBody(request, inboundPolicySchema);
+    if (!parsed.ok) return parsed.response;
+    const { walletAddress, inboundPolicy, senders } = parsed.value;
+
+    // Sorted and deduplicated, so the signed field is canonical
+    const senderAddresses = Array.from(new Set(senders)).sort();
+
+    // Only the wallet itself may change who can reach it
+    const auth = verifyWalletAuth(request, 'set-inbound-policy', {
+      Policy: inboundPolicy,
+      Senders: senderAddresses.join(','),
+    });
+    if (!auth.ok || auth.walletAddress !== walletAddress) {
+      return NextResponse.json(
+        { error: auth.ok ? 'Signature does not match wallet address' : auth.error },
+        { status: 401 }
+      );
+    }
+
+    const walletLimited = limitByWallet('set-inbound-policy', auth.walletAddress);
+    if (walletLimited) return walletLimited;
+
+    const settings = getKeyStore().setInboundPolicy(walletAddress, inboundPolicy, senderAddresses);
+
+    return NextResponse.json({
+      success: true,
+      walletAddress,
+      inboundPolicy: settings.inboundPolicy,
+      senders: senderAddresses,
+    });
+  } catch (error) {
+    console.error('Error setting inbound policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to set inbound policy' },
+      { status: 500 }
+    );
+  }
+}
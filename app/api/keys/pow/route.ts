@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKeyStore } from '@/lib/storage';
+import { verifyWalletAuth } from '@/lib/auth';
+import { MAX_POW_DIFFICULTY } from '@/lib/pow';
+import { config } from '@/lib/config';
+import { limitByIp, limitByWallet } from '@/lib/rateLimit';
+import { integer, object, parseBody, solanaAddress } from '@/lib/validation';
+
+const powDifficultySchema = object({
+  walletAddress: solanaAddress(),
+  difficulty: integer({ min: 0, max: MAX_POW_DIFFICULTY }),
+});
+
+/**
+ * Set the proof-of-work difficulty a wallet requires of senders
+ *
+ * Recipients flooded with anonymous notes can make every note to their
+ * address more expensive to send. The server-wide minimum still applies
+ * (0 falls back to it).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = limitByIp(request, 'set-pow-difficulty');
+    if (limited) return limited;
+
+    const parsed = await parseBody(request, powDifficultySchema);
+    if (!parsed.ok) return parsed.response;
+    const { walletAddress, difficulty } = parsed.value;
+
+    // Only the wallet itself may change what it requires
+    const auth = verifyWalletAuth(request, 'set-pow-difficulty', {
+      Difficulty: String(difficulty),
+    });
+    if (!auth.ok || auth.walletAddress !== walletAddress) {
+      return NextResponse.json(
+        { error: auth.ok ? 'Signature does not match wallet address' : auth.error },
+        { status: 401 }
+      );
+    }
+
+    const walletLimited = limitByWallet('set-pow-difficulty', auth.walletAddress);
+    if (walletLimited) return walletLimited;
+
+    const settings = getKeyStore().setRecipientPowDifficulty(walletAddress, difficulty);
+
+    return NextResponse.json({
+      success: true,
+      walletAddress,
+      powDifficulty: settings.powDifficulty,
+      effectiveDifficulty: Math.max(settings.powDifficulty, config.powDifficulty),
+    });
+  } catch (error) {
+    console.error('Error setting proof-of-work difficulty:', error);
+    return NextResponse.json(
+      { error: 'Failed to set difficulty' },
+      { status: 500 }
+    );
+  }
+}
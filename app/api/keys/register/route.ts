@@ -1,52 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { registerKey } from '@/lib/db';
-import { PublicKey } from '@solana/web3.js';
+import { getKeyStore } from '@/lib/storage';
+import { verifyWalletAuth } from '@/lib/auth';
+import { limitByIp, limitByWallet } from '@/lib/rateLimit';
+import { base64, integer, object, oneOf, optional, parseBody, solanaAddress } from '@/lib/validation';
+
+const registerKeySchema = object({
+  walletAddress: solanaAddress(),
+  encryptionPublicKey: base64({ length: 32 }),
+  version: optional(integer({ min: 1 }), 1),
+  // Derivation scheme the client used (see lib/crypto.ts), so the owner
+  // can derive this key again later
+  scheme: optional(oneOf([1, 2]), 1),
+});
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { walletAddress, encryptionPublicKey } = body;
+    const limited = limitByIp(request, 'register-key');
+    if (limited) return limited;
 
-    // Validate required fields
-    if (!walletAddress || !encryptionPublicKey) {
-      return NextResponse.json(
-        { error: 'Missing required fields' },
-        { status: 400 }
-      );
-    }
+    const parsed = await parseBody(request, registerKeySchema);
+    if (!parsed.ok) return parsed.response;
+    const { walletAddress, encryptionPublicKey, version, scheme } = parsed.value;
 
-    // Validate Solana address
-    try {
-      new PublicKey(walletAddress);
-    } catch {
+    // Prove the caller controls the wallet they are registering a key for
+    const auth = verifyWalletAuth(request, 'register-key', {
+      'Encryption key': encryptionPublicKey.toString('base64'),
+      'Key version': String(version),
+      'Derivation scheme': String(scheme),
+    });
+    if (!auth.ok || auth.walletAddress !== walletAddress) {
       return NextResponse.json(
-        { error: 'Invalid Solana address' },
-        { status: 400 }
+        { error: auth.ok ? 'Signature does not match wallet address' : auth.error },
+        { status: 401 }
       );
     }
 
-    // Validate encryption public key is base64 and 32 bytes
-    try {
-      const decoded = Buffer.from(encryptionPublicKey, 'base64');
-      if (decoded.length !== 32) {
-        throw new Error('Invalid key length');
-      }
-    } catch {
-      return NextResponse.json(
-        { error: 'Invalid encryption public key' },
-        { status: 400 }
-      );
-    }
+    const walletLimited = limitByWallet('register-key', auth.walletAddress);
+    if (walletLimited) return walletLimited;
 
-    // Register the key
-    const registered = registerKey({
+    // Register the key - a new version rotates it, older versions are kept
+    const registered = getKeyStore().registerKey({
       walletAddress,
       encryptionPublicKey,
+      version,
+      scheme,
     });
 
+    if (!registered) {
+      const current = getKeyStore().getRegisteredKey(walletAddress);
+      return NextResponse.json(
+        {
+          error: current
+            ? `Key version ${current.version} is already registered; rotate to version ${current.version + 1}`
+            : 'The first key must be version 1',
+          currentVersion: current?.version ?? null,
+        },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json({
       success: true,
       walletAddress: registered.walletAddress,
+      version: registered.version,
+      scheme: registered.scheme,
       registeredAt: registered.registeredAt,
     });
   } catch (error) {
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKeyStore } from '@/lib/storage';
+import { verifyWalletAuth } from '@/lib/auth';
+import { limitByIp, limitByWallet } from '@/lib/rateLimit';
+import { integer, object, optional, parseBody, solanaAddress, string } from '@/lib/validation';
+
+// Upper bound on the free-text revocation reason
+const MAX_REASON_LENGTH = 500;
+
+const revokeKeySchema = object({
+  walletAddress: solanaAddress(),
+  version: integer({ min: 1 }),
+  reason: optional(string({ max: MAX_REASON_LENGTH }), ''),
+});
+
+/**
+ * Revoke an encryption key version, e.g. after its secret leaked
+ *
+ * Senders stop encrypting to a revoked key; the wallet re-registers by
+ * rotating to the next key version. The signed revocation (reason and
+ * time) is kept with the key history.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = limitByIp(request, 'revoke-key');
+    if (limited) return limited;
+
+    const parsed = await parseBody(request, revokeKeySchema);
+    if (!parsed.ok) return parsed.response;
+    const { walletAddress, version, reason } = parsed.value;
+
+    // Only the wallet itself may revoke its keys
+    const auth = verifyWalletAuth(request, 'revoke-key', {
+      'Key version': String(version),
+      Reason: reason,
+    });
+    if (!auth.ok || auth.walletAddress !== walletAddress) {
+      return NextResponse.json(
+        { error: auth.ok ? 'Signature does not match wallet address' : auth.error },
+        { status: 401 }
+      );
+    }
+
+    const walletLimited = limitByWallet('revoke-key', auth.walletAddress);
+    if (walletLimited) return walletLimited;
+
+    const key = getKeyStore().getKeyVersion(walletAddress, version);
+
+    if (!key) {
+      return NextResponse.json(
+        { error: 'No encryption key registered with this version' },
+        { status: 404 }
+      );
+    }
+
+    const revoked = getKeyStore().revokeKey(walletAddress, version, reason);
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'Key is already revoked' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      walletAddress,
+      version,
+      revokedAt: revoked.revokedAt,
+      revocationReason: revoked.revocationReason,
+    });
+  } catch (error) {
+    console.error('Error revoking key:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke key' },
+      { status: 500 }
+    );
+  }
+}
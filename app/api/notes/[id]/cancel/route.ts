@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/storage';
+import { verifyWalletAuth } from '@/lib/auth';
+import { limitByIp, limitByWallet } from '@/lib/rateLimit';
+import { generatedId, object, parseParams } from '@/lib/validation';
+
+const paramsSchema = object({ id: generatedId() });
+
+/**
+ * Cancel a dead man's switch: delete the note before it is released
+ * Only the switch's owner can cancel it, before its check-in deadline;
+ * once released it belongs to its recipients.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const limited = limitByIp(request, 'cancel-switch');
+    if (limited) return limited;
+
+    const parsedParams = await parseParams(params, paramsSchema);
+    if (!parsedParams.ok) return parsedParams.response;
+    const { id } = parsedParams.value;
+
+    const auth = verifyWalletAuth(request, 'cancel-switch', { Note: id });
+    if (!auth.ok) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: 401 }
+      );
+    }
+
+    const walletLimited = limitByWallet('cancel-switch', auth.walletAddress);
+    if (walletLimited) return walletLimited;
+
+    if (!getNoteStore().cancelSwitch(id, auth.walletAddress)) {
+      // Only the owner learns that their switch is past its deadline
+      if (getNoteStore().getNote(id)?.switchOwner === auth.walletAddress) {
+        return NextResponse.json(
+          { error: "Dead man's switch has been released: its check-in deadline passed" },
+          { status: 410 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Active dead man's switch not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Dead man's switch cancelled",
+    });
+  } catch (error) {
+    console.error("Error cancelling dead man's switch:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel dead man's switch" },
+      { status: 500 }
+    );
+  }
+}
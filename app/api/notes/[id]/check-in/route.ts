@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/storage';
+import { verifyWalletAuth } from '@/lib/auth';
+import { limitByIp, limitByWallet } from '@/lib/rateLimit';
+import { generatedId, object, parseParams } from '@/lib/validation';
+
+const paramsSchema = object({ id: generatedId() });
+
+/**
+ * Check in on a dead man's switch: keep the note sealed for another
+ * check-in interval
+ * Only the switch's owner can check in, and only before its deadline.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const limited = limitByIp(request, 'check-in-switch');
+    if (limited) return limited;
+
+    const parsedParams = await parseParams(params, paramsSchema);
+    if (!parsedParams.ok) return parsedParams.response;
+    const { id } = parsedParams.value;
+
+    const auth = verifyWalletAuth(request, 'check-in-switch', { Note: id });
+    if (!auth.ok) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: 401 }
+      );
+    }
+
+    const walletLimited = limitByWallet('check-in-switch', auth.walletAddress);
+    if (walletLimited) return walletLimited;
+
+    const note = getNoteStore().checkInSwitch(id, auth.walletAddress);
+
+    // Not telling apart "no such switch" from "not yours" or "released"
+    // keeps other wallets from probing notes
+    if (!note) {
+      return NextResponse.json(
+        { error: "Active dead man's switch not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      unlockAt: note.unlockAt,
+      expiresAt: note.expiresAt,
+    });
+  } catch (error) {
+    console.error('Error checking in:', error);
+    return NextResponse.json(
+      { error: 'Failed to check in' },
+      { status: 500 }
+    );
+  }
+}
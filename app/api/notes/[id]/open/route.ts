@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore, isNoteRecipient } from '@/lib/storage';
+import { verifyWalletAuth } from '@/lib/auth';
+import { hashLinkAccessProof, LINK_PROOF_HEADER } from '@/lib/crypto';
+import { limitByIp, limitByWallet } from '@/lib/rateLimit';
+import { isNoteLocked } from '@/lib/store';
+import { generatedId, object, parseParams } from '@/lib/validation';
+
+const paramsSchema = object({ id: generatedId() });
+
+/**
+ * Check a link note's access proof against the stored hash
+ * A wrong link or passphrase must not spend a read.
+ */
+function hasLinkAccess(request: NextRequest, accessHash: Buffer | null): boolean {
+  const proof = request.headers.get(LINK_PROOF_HEADER);
+  if (!proof || !accessHash) return false;
+
+  try {
+    // Comparing hashes, so timing reveals nothing about the proof itself
+    return Buffer.from(hashLinkAccessProof(proof), 'base64').equals(accessHash);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Open a note: consume one read and return the ciphertext
+ *
+ * Replaces the old GET + increment + DELETE sequence. The read budget
+ * check, the read count increment and the burn happen in one database
+ * transaction, and the ciphertext is only returned when a read is granted.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const limited = limitByIp(request, 'open-note');
+    if (limited) return limited;
+
+    const parsedParams = await parseParams(params, paramsSchema);
+    if (!parsedParams.ok) return parsedParams.response;
+    const { id } = parsedParams.value;
+
+    const note = getNoteStore().getNote(id);
+
+    if (!note) {
+      return NextResponse.json(
+        { error: 'Note not found' },
+        { status: 404 }
+      );
+    }
+
+    // Scheduled notes keep their ciphertext until the unlock time, dead
+    // man's switches until they are released
+    if (isNoteLocked(note)) {
+      return NextResponse.json(
+        note.switchOwner !== null
+          ? { error: 'This note stays sealed while its sender keeps checking in' }
+          : { error: 'This note cannot be opened yet', unlockAt: note.unlockAt },
+        { status: 423 }
+      );
+    }
+
+    let recipientAddress: string | null = null;
+
+    if (note.mode === 'link') {
+      // Link notes have no recipient wallet - the full link (and
+      // passphrase, if any) is what grants a read
+      if (!hasLinkAccess(request, note.accessHash)) {
+        return NextResponse.json(
+          { error: 'Invalid link or passphrase' },
+          { status: 403 }
+        );
+      }
+    } else {
+      // Only the recipient may spend a read - knowing the link is not enough
+      const auth = verifyWalletAuth(request, 'open-note', { Note: id });
+      if (!auth.ok) {
+        return NextResponse.json(
+          { error: auth.error },
+          { status: 401 }
+        );
+      }
+
+      const walletLimited = limitByWallet('open-note', auth.walletAddress);
+      if (walletLimited) return walletLimited;
+
+      if (!isNoteRecipient(note, auth.walletAddress)) {
+        return NextResponse.json(
+          { error: 'Only the recipient can open this note' },
+          { status: 403 }
+        );
+      }
+
+      recipientAddress = auth.walletAddress;
+    }
+
+    const opened = getNoteStore().openNote(id, recipientAddress);
+
+    if (!opened) {
+      return NextResponse.json(
+        { error: 'Note not found' },
+        { status: 404 }
+      );
+    }
+
+    // ZERO-KNOWLEDGE ASYMMETRIC: Return encrypted data + ephemeral public key
+    // Server cannot decrypt - only recipient's secret key can decrypt
+    // Stored as bytes, sent as base64
+    return NextResponse.json({
+      id: opened.note.id,
+      mode: opened.note.mode,
+      ciphertext: opened.note.ciphertext.toString('base64'),
+      nonce: opened.note.nonce.toString('base64'),
+      ephemeralPublicKey: opened.note.ephemeralPublicKey?.toString('base64') ?? null,
+      // Multi-recipient: this recipient's wrapped copy of the note key
+      wrappedKey: opened.recipient?.wrappedKey.toString('base64'),
+      wrapNonce: opened.recipient?.wrapNonce.toString('base64'),
+      // Which of the recipient's key versions to decrypt with
+      keyVersion: opened.recipient?.keyVersion ?? opened.note.keyVersion,
+      selfDestruct: opened.note.selfDestruct,
+      maxReads: opened.note.maxReads,
+      currentReads: opened.note.currentReads,
+      burned: opened.burned,
+    });
+  } catch (error) {
+    console.error('Error opening note:', error);
+    return NextResponse.json(
+      { error: 'Failed to open note' },
+      { status: 500 }
+    );
+  }
+}
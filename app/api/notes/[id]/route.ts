@@ -1,46 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getNote, deleteNote } from '@/lib/db';
+import { getNoteStore, isNoteRecipient } from '@/lib/storage';
+import { verifyWalletAuth } from '@/lib/auth';
+import { limitByIp, limitByWallet } from '@/lib/rateLimit';
+import { isNoteLocked } from '@/lib/store';
+import { generatedId, object, parseParams } from '@/lib/validation';
+
+const paramsSchema = object({ id: generatedId() });
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { id } = await params;
+    const limited = limitByIp(request, 'get-note');
+    if (limited) return limited;
 
-    const note = getNote(id);
+    const parsedParams = await parseParams(params, paramsSchema);
+    if (!parsedParams.ok) return parsedParams.response;
+    const { id } = parsedParams.value;
 
-    if (!note) {
-      return NextResponse.json(
-        { error: 'Note not found' },
-        { status: 404 }
-      );
-    }
+    const note = getNoteStore().getNote(id);
 
-    // Check if note has exceeded max reads
-    if (note.maxReads !== null && note.currentReads >= note.maxReads) {
-      // Delete the note if it's exceeded max reads
-      deleteNote(id);
+    if (!note) {
       return NextResponse.json(
         { error: 'Note not found' },
         { status: 404 }
       );
     }
 
-    // Don't increment read count on GET - only on decrypt
-    // Return current count as-is
-
-    // ZERO-KNOWLEDGE ASYMMETRIC: Return encrypted data + ephemeral public key
-    // Server cannot decrypt - only recipient's secret key can decrypt
+    // Metadata only - the ciphertext is released by POST /open, which
+    // consumes a read from the budget
+    // Multi-recipient notes don't list their recipients (or their key
+    // versions) - each recipient finds out by opening the note
+    // A dead man's switch hides its owner and deadline, which would tell
+    // when its sender last checked in. A missed deadline releases it,
+    // whether or not the sweeper has marked it released yet
+    const releasedAt = note.releasedAt ?? (note.switchOwner !== null && !isNoteLocked(note) ? note.unlockAt : null);
     return NextResponse.json({
       id: note.id,
-      ciphertext: note.ciphertext,
-      nonce: note.nonce,
-      ephemeralPublicKey: note.ephemeralPublicKey,
+      mode: note.mode,
       recipientAddress: note.recipientAddress,
+      keyVersion: note.mode === 'direct' ? note.keyVersion : null,
       selfDestruct: note.selfDestruct,
       maxReads: note.maxReads,
-      currentReads: note.currentReads, // Return current count without incrementing
+      currentReads: note.currentReads,
+      unlockAt: note.switchOwner === null ? note.unlockAt : null,
+      deadManSwitch: note.switchOwner !== null,
+      releasedAt,
+      expiresAt: note.switchOwner === null || releasedAt !== null ? note.expiresAt : null,
     });
   } catch (error) {
     console.error('Error fetching note:', error);
@@ -56,9 +63,45 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { id } = await params;
+    const limited = limitByIp(request, 'delete-note');
+    if (limited) return limited;
+
+    const parsedParams = await parseParams(params, paramsSchema);
+    if (!parsedParams.ok) return parsedParams.response;
+    const { id } = parsedParams.value;
+
+    const note = getNoteStore().getNote(id);
+
+    if (!note) {
+      return NextResponse.json(
+        { error: 'Note not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only the recipient may burn a note - knowing the link is not enough
+    const auth = verifyWalletAuth(request, 'delete-note', { Note: id });
+    if (!auth.ok) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: 401 }
+      );
+    }
+
+    const walletLimited = limitByWallet('delete-note', auth.walletAddress);
+    if (walletLimited) return walletLimited;
+
+    if (!isNoteRecipient(note, auth.walletAddress)) {
+      return NextResponse.json(
+        { error: 'Only the recipient can delete this note' },
+        { status: 403 }
+      );
+    }
 
-    const deleted = deleteNote(id);
+    // A recipient of a multi-recipient note only burns their own copy
+    const deleted = note.mode === 'multi'
+      ? getNoteStore().removeNoteRecipient(id, auth.walletAddress)
+      : getNoteStore().deleteNote(id);
 
     if (!deleted) {
       return NextResponse.json(
@@ -1,71 +1,342 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createNote } from '@/lib/db';
-import { PublicKey } from '@solana/web3.js';
+import { getNoteStore, getKeyStore } from '@/lib/storage';
+import { config } from '@/lib/config';
+import nacl from 'tweetnacl';
+import { limitByIp, limitByWallet } from '@/lib/rateLimit';
+import { verifyWalletAuth } from '@/lib/auth';
+import {
+  AUTH_HEADERS,
+  IDEMPOTENCY_KEY_HEADER,
+  generateNoteId,
+  hashNoteCiphertext,
+  isPaddedLength,
+} from '@/lib/crypto';
+import { checkInboundPolicy } from '@/lib/policy';
+import { getRequiredDifficulty, verifyStamp } from '@/lib/stamps';
+import { IdempotentRequest } from '@/lib/store';
+import {
+  array,
+  base64,
+  boolean,
+  generatedId,
+  Infer,
+  integer,
+  invalidRequest,
+  nullable,
+  object,
+  optional,
+  parseBody,
+  solanaAddress,
+  string,
+  validate,
+  variant,
+} from '@/lib/validation';
+
+// Upper bound on recipients of a single multi-recipient note
+const MAX_RECIPIENTS = 20;
+
+// Upper bound on files attached to a single note
+const MAX_ATTACHMENTS = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How long a create request's idempotency key is remembered
+const IDEMPOTENCY_KEY_TTL_MS = DAY_MS;
+
+// Note IDs are 128 random bits - a collision means something is wrong,
+// so only retry a few times
+const MAX_ID_ATTEMPTS = 3;
+
+// Fields every mode shares
+const noteFields = {
+  // Ciphertext must be a padded envelope (see lib/crypto.ts) plus the
+  // box/secretbox MAC - this caps its size and keeps lengths bucketed
+  ciphertext: base64({
+    check: (bytes) => isPaddedLength(bytes.length - nacl.box.overheadLength),
+    message: 'is too large or not padded',
+  }),
+  // Box and secretbox nonces are both 24 bytes
+  nonce: base64({ length: nacl.box.nonceLength }),
+  stamp: optional(object({ challenge: string(), nonce: string() })),
+  attachments: optional(
+    array(object({ id: generatedId(), uploadToken: string({ min: 1, max: 64 }) }), { max: MAX_ATTACHMENTS }),
+    []
+  ),
+  selfDestruct: optional(boolean(), true),
+  maxReads: optional(nullable(integer({ min: 1, max: 1000 })), null),
+  // Scheduled notes: when the note can first be opened (ms since epoch)
+  unlockAt: optional(nullable(integer({ min: 0 })), null),
+  // Dead man's switch notes: how often the sender must check in (ms)
+  checkInInterval: optional(nullable(integer({ min: HOUR_MS })), null),
+  // Milliseconds from now (scheduled notes: from unlockAt; dead man's
+  // switch notes: from the check-in deadline)
+  expiresIn: optional(integer({ min: 1 }), config.defaultExpiryMs),
+};
+
+const keyVersion = optional(integer({ min: 1 }), 1);
+
+const createNoteSchema = variant(
+  'mode',
+  {
+    direct: object({
+      ...noteFields,
+      ephemeralPublicKey: base64({ length: nacl.box.publicKeyLength }),
+      recipientAddress: solanaAddress(),
+      keyVersion,
+    }),
+    // Every recipient gets a wrapped 32-byte key (secretbox key + 16-byte
+    // MAC) under a 24-byte nonce
+    multi: object({
+      ...noteFields,
+      ephemeralPublicKey: base64({ length: nacl.box.publicKeyLength }),
+      recipients: array(
+        object({
+          address: solanaAddress(),
+          wrappedKey: base64({ length: nacl.secretbox.keyLength + nacl.box.overheadLength }),
+          wrapNonce: base64({ length: nacl.box.nonceLength }),
+          keyVersion,
+        }),
+        { min: 2, max: MAX_RECIPIENTS, key: (recipient) => recipient.address }
+      ),
+    }),
+    // The link key never reaches us - only the hash of the access proof
+    // derived from it, which gates opening the note
+    link: object({
+      ...noteFields,
+      accessHash: base64({ length: 32 }),
+    }),
+  },
+  'direct'
+);
+
+const headersSchema = object({
+  [IDEMPOTENCY_KEY_HEADER]: optional(string({ min: 16, max: 64, pattern: /^[A-Za-z0-9_-]+$/ })),
+});
+
+type CreateNoteBody = Infer<typeof createNoteSchema>;
+
+// Everything a retry must repeat - it may bring a freshly solved stamp
+function hashCreateRequest(body: CreateNoteBody): string {
+  const fields = JSON.stringify({ ...body, stamp: undefined });
+  return Buffer.from(nacl.hash(Buffer.from(fields))).toString('base64');
+}
+
+// Answer a retry with the note its first attempt created
+function replayRequest(previous: IdempotentRequest, requestHash: string): NextResponse {
+  if (previous.requestHash !== requestHash) {
+    return NextResponse.json(
+      { error: 'Idempotency key was already used for a different note' },
+      { status: 422 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    noteId: previous.noteId,
+    expiresAt: previous.noteExpiresAt,
+  });
+}
+
+// Senders may only encrypt to a registered key its owner has not revoked
+function keyVersionProblem(address: string, version: number): string | null {
+  const key = getKeyStore().getKeyVersion(address, version);
+  if (!key) return `version ${version} is not registered`;
+  if (key.revokedAt) return 'has been revoked';
+  return null;
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-
-    const {
-      id,
-      ciphertext,
-      nonce,
-      ephemeralPublicKey,
-      recipientAddress,
-      selfDestruct = true,
-      maxReads = null
-    } = body;
-
-    // Validate required fields
-    if (!id || !ciphertext || !nonce || !ephemeralPublicKey || !recipientAddress) {
-      return NextResponse.json(
-        { error: 'Missing required fields' },
-        { status: 400 }
-      );
+    const limited = limitByIp(request, 'create-note');
+    if (limited) return limited;
+
+    const parsed = await parseBody(request, createNoteSchema);
+    if (!parsed.ok) return parsed.response;
+    const body = parsed.value;
+
+    const parsedHeaders = validate(headersSchema, {
+      [IDEMPOTENCY_KEY_HEADER]: request.headers.get(IDEMPOTENCY_KEY_HEADER) ?? undefined,
+    });
+    if (!parsedHeaders.ok) return parsedHeaders.response;
+    const idempotencyKey = parsedHeaders.value[IDEMPOTENCY_KEY_HEADER];
+
+    // A retry is answered before anything else is checked again - its
+    // stamp and signature challenge were spent by the first attempt
+    const requestHash = hashCreateRequest(body);
+    const previous = idempotencyKey ? getNoteStore().getIdempotentRequest(idempotencyKey) : null;
+    if (previous) return replayRequest(previous, requestHash);
+
+    // A scheduled note must unlock before it reaches the maximum retention,
+    // and a dead man's switch cannot wait longer than that between check-ins
+    const now = Date.now();
+    const maxDays = Math.floor(config.maxRetentionMs / DAY_MS);
+    if (body.unlockAt !== null && (body.unlockAt <= now || body.unlockAt >= now + config.maxRetentionMs)) {
+      return invalidRequest({ unlockAt: `must be in the future, less than ${maxDays} days ahead` });
+    }
+    // Its expiry counts from the unlock time, and must end within that
+    // maximum retention too - a sender is told rather than cut short
+    if (body.unlockAt !== null && body.unlockAt + body.expiresIn > now + config.maxRetentionMs) {
+      return invalidRequest({ expiresIn: `counted from unlockAt, must end at most ${maxDays} days from now` });
+    }
+    if (body.checkInInterval !== null && body.checkInInterval > config.maxRetentionMs) {
+      return invalidRequest({ checkInInterval: `must be at most ${maxDays} days` });
+    }
+    if (body.checkInInterval !== null && body.unlockAt !== null) {
+      return invalidRequest({ unlockAt: 'cannot be combined with checkInInterval' });
+    }
+
+    if (body.mode === 'direct') {
+      const problem = keyVersionProblem(body.recipientAddress, body.keyVersion);
+      if (problem) {
+        return NextResponse.json(
+          { error: `Recipient encryption key ${problem}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.mode === 'multi') {
+      for (const recipient of body.recipients) {
+        const problem = keyVersionProblem(recipient.address, recipient.keyVersion);
+        if (problem) {
+          return NextResponse.json(
+            { error: `Encryption key ${problem} for recipient: ${recipient.address}` },
+            { status: 400 }
+          );
+        }
+      }
+    }
+
+    // Attachments must be fully uploaded by whoever holds their upload token
+    for (const attachment of body.attachments) {
+      if (!getNoteStore().isAttachmentReady(attachment.id, attachment.uploadToken)) {
+        return NextResponse.json(
+          { error: `Attachment not found or incomplete: ${attachment.id}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const recipientAddresses =
+      body.mode === 'direct'
+        ? [body.recipientAddress]
+        : body.mode === 'multi'
+          ? body.recipients.map((recipient) => recipient.address)
+          : [];
+
+    // Senders may identify with a wallet signature - recipients whose
+    // inbound policy restricts senders need it (see lib/policy.ts)
+    let senderAddress: string | null = null;
+    if (request.headers.get(AUTH_HEADERS.wallet)) {
+      const auth = verifyWalletAuth(request, 'send-note', {
+        'Ciphertext hash': hashNoteCiphertext(body.ciphertext.toString('base64')),
+      });
+      if (!auth.ok) {
+        return NextResponse.json(
+          { error: auth.error },
+          { status: 401 }
+        );
+      }
+
+      const walletLimited = limitByWallet('create-note', auth.walletAddress);
+      if (walletLimited) return walletLimited;
+
+      senderAddress = auth.walletAddress;
     }
 
-    // Validate Solana address
-    try {
-      new PublicKey(recipientAddress);
-    } catch {
+    // Only the sender's own wallet may check in on a dead man's switch
+    if (body.checkInInterval !== null && senderAddress === null) {
       return NextResponse.json(
-        { error: 'Invalid Solana address' },
-        { status: 400 }
+        { error: "Dead man's switch notes must be signed by the sender's wallet" },
+        { status: 401 }
       );
     }
 
-    // Validate string lengths (prevent abuse)
-    if (ciphertext.length > 100000) {
-      return NextResponse.json(
-        { error: 'Message too large' },
-        { status: 400 }
+    for (const address of recipientAddresses) {
+      const rejection = checkInboundPolicy(
+        getKeyStore().getRecipientSettings(address).inboundPolicy,
+        senderAddress !== null && getKeyStore().isPolicySender(address, senderAddress),
+        senderAddress
       );
+      if (rejection) {
+        return NextResponse.json(
+          { error: `Recipient ${address} ${rejection}`, recipientAddress: address },
+          { status: 403 }
+        );
+      }
     }
 
-    // Validate maxReads
-    if (maxReads !== null && (typeof maxReads !== 'number' || maxReads < 1 || maxReads > 1000)) {
+    // Every sender pays with work, signed or not: the stamp must meet the
+    // highest difficulty among the server minimum and the recipients' own
+    const requiredDifficulty = getRequiredDifficulty(recipientAddresses);
+    if (!verifyStamp(body.stamp, requiredDifficulty)) {
       return NextResponse.json(
-        { error: 'Invalid maxReads value' },
+        { error: 'Missing or invalid proof-of-work stamp', requiredDifficulty },
         { status: 400 }
       );
     }
 
+    // A dead man's switch is sealed until its first check-in deadline
+    const unlockAt = body.checkInInterval !== null ? Date.now() + body.checkInInterval : body.unlockAt;
+
+    // Expiry counts from the unlock time (dead man's switches: from the
+    // deadline that releases them), and never exceeds the server-wide
+    // maximum retention. Scheduled notes were checked to end within it
+    // above; switches are kept for as long as their owner checks in
+    const expiresAt = (unlockAt ?? now) + Math.min(body.expiresIn, config.maxRetentionMs);
+
     // ZERO-KNOWLEDGE ASYMMETRIC: We store ciphertext + ephemeral public key
     // Only recipient's secret key can decrypt - server literally cannot decrypt
-    const note = createNote({
-      id,
-      ciphertext,
-      nonce,
-      ephemeralPublicKey,
-      recipientAddress,
-      selfDestruct,
-      maxReads,
-    });
+    // Multi-recipient: ciphertext is a secretbox, its key is wrapped with
+    // NaCl box for each recipient - still only recipients can decrypt
+    // Link: ciphertext is a secretbox under a key only the link carries
+    for (let attempt = 0; attempt < MAX_ID_ATTEMPTS; attempt++) {
+      const note = getNoteStore().createNote(
+        {
+          id: generateNoteId(),
+          mode: body.mode,
+          ciphertext: body.ciphertext,
+          nonce: body.nonce,
+          ephemeralPublicKey: body.mode === 'link' ? null : body.ephemeralPublicKey,
+          recipientAddress: body.mode === 'direct' ? body.recipientAddress : null,
+          selfDestruct: body.selfDestruct,
+          maxReads: body.maxReads,
+          unlockAt,
+          expiresAt,
+          keyVersion: body.mode === 'direct' ? body.keyVersion : 1,
+          accessHash: body.mode === 'link' ? body.accessHash : null,
+          switchOwner: body.checkInInterval !== null ? senderAddress : null,
+          checkInInterval: body.checkInInterval,
+        },
+        body.mode === 'multi'
+          ? body.recipients.map((recipient) => ({
+              recipientAddress: recipient.address,
+              wrappedKey: recipient.wrappedKey,
+              wrapNonce: recipient.wrapNonce,
+              keyVersion: recipient.keyVersion,
+            }))
+          : [],
+        body.attachments.map((attachment) => attachment.id),
+        idempotencyKey
+          ? { key: idempotencyKey, requestHash, expiresAt: Date.now() + IDEMPOTENCY_KEY_TTL_MS }
+          : undefined
+      );
 
-    return NextResponse.json({
-      success: true,
-      noteId: note.id,
-    });
+      if (note) {
+        return NextResponse.json({
+          success: true,
+          noteId: note.id,
+          expiresAt: note.expiresAt,
+        });
+      }
+
+      // A concurrent retry with the same key got there first
+      const concurrent = idempotencyKey ? getNoteStore().getIdempotentRequest(idempotencyKey) : null;
+      if (concurrent) return replayRequest(concurrent, requestHash);
+    }
+
+    throw new Error(`No free note ID after ${MAX_ID_ATTEMPTS} attempts`);
   } catch (error) {
     console.error('Error creating note:', error);
     return NextResponse.json(
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import { issuePowChallenge } from '@/lib/stamps';
+import { limitByIp } from '@/lib/rateLimit';
+
+export async function GET(request: NextRequest) {
+  try {
+    const limited = limitByIp(request, 'pow-challenge');
+    if (limited) return limited;
+
+    const challenge = issuePowChallenge();
+
+    // difficulty is the server-wide minimum; recipients may require more
+    // (see GET /api/keys/[address])
+    return NextResponse.json({
+      challenge: challenge.challenge,
+      difficulty: config.powDifficulty,
+      expiresAt: challenge.expiresAt,
+    });
+  } catch (error) {
+    console.error('Error issuing proof-of-work challenge:', error);
+    return NextResponse.json(
+      { error: 'Failed to issue challenge' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/storage';
+import { verifyWalletAuth } from '@/lib/auth';
+import { limitByIp, limitByWallet } from '@/lib/rateLimit';
+
+/**
+ * List the connected wallet's active dead man's switches
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const limited = limitByIp(request, 'list-switches');
+    if (limited) return limited;
+
+    // Only the owner may see when its switches fire
+    const auth = verifyWalletAuth(request, 'list-switches');
+    if (!auth.ok) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: 401 }
+      );
+    }
+
+    const walletLimited = limitByWallet('list-switches', auth.walletAddress);
+    if (walletLimited) return walletLimited;
+
+    const notes = getNoteStore().listSwitchesForOwner(auth.walletAddress);
+
+    return NextResponse.json({
+      walletAddress: auth.walletAddress,
+      switches: notes.map((note) => ({
+        id: note.id,
+        mode: note.mode,
+        recipientAddress: note.recipientAddress,
+        createdAt: note.createdAt,
+        checkInInterval: note.checkInInterval,
+        // Released unless checked in on before this
+        unlockAt: note.unlockAt,
+        expiresAt: note.expiresAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching dead man's switches:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch dead man's switches" },
+      { status: 500 }
+    );
+  }
+}
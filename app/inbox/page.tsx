@@ -0,0 +1,274 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
+import { DecryptedNote } from '@/lib/crypto';
+import { fetchInbox, openNote, decryptOpenedNote, deriveSecretKeyForVersion, OpenedNote } from '@/lib/api';
+import { formatTimeRemaining } from '@/lib/format';
+import { SenderBadge } from '@/components/SenderBadge';
+import { AttachmentList } from '@/components/AttachmentList';
+
+interface InboxNote {
+  id: string;
+  createdAt: number;
+  selfDestruct: boolean;
+  maxReads: number | null;
+  currentReads: number;
+  // Scheduled notes cannot be opened before this time
+  unlockAt: number | null;
+  // Dead man's switch notes: when the sender's missed check-in released it
+  releasedAt: number | null;
+  expiresAt: number | null;
+  keyVersion: number;
+}
+
+function isLocked(note: InboxNote): boolean {
+  return note.unlockAt !== null && note.unlockAt > Date.now();
+}
+
+export default function InboxPage() {
+  const { publicKey, signMessage } = useWallet();
+  const [notes, setNotes] = useState<InboxNote[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [secretKeys, setSecretKeys] = useState<Record<number, string>>({});
+  const [openingId, setOpeningId] = useState('');
+  const [decrypted, setDecrypted] = useState<Record<string, DecryptedNote>>({});
+
+  // Forget everything when the wallet changes
+  useEffect(() => {
+    setNotes(null);
+    setSecretKeys({});
+    setDecrypted({});
+    setError('');
+  }, [publicKey]);
+
+  const loadInbox = async () => {
+    if (!publicKey || !signMessage) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetchInbox(signMessage, publicKey.toBase58());
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to load inbox');
+      }
+
+      const data = await response.json();
+      setNotes(data.notes);
+    } catch (err) {
+      console.error('Inbox error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load inbox');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDecrypt = async (note: InboxNote) => {
+    if (!publicKey || !signMessage) return;
+
+    setOpeningId(note.id);
+    setError('');
+
+    try {
+      // Derive each key version once per visit - older notes may be
+      // encrypted to a key this wallet has since rotated away from
+      let key = secretKeys[note.keyVersion];
+      if (!key) {
+        key = await deriveSecretKeyForVersion(signMessage, publicKey.toBase58(), note.keyVersion);
+        setSecretKeys((current) => ({ ...current, [note.keyVersion]: key }));
+      }
+
+      const response = await openNote(signMessage, publicKey.toBase58(), note.id);
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          setNotes((current) => current?.filter((n) => n.id !== note.id) ?? null);
+          throw new Error('Note not found. It may have already been destroyed.');
+        }
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to open note');
+      }
+
+      const opened: OpenedNote = await response.json();
+      const decryptedNote = decryptOpenedNote(opened, key, publicKey.toBase58());
+
+      setDecrypted((current) => ({ ...current, [note.id]: decryptedNote }));
+      setNotes((current) =>
+        current?.map((n) => (n.id === note.id ? { ...n, currentReads: opened.currentReads } : n)) ?? null
+      );
+    } catch (err) {
+      console.error('Decryption error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to decrypt message');
+    } finally {
+      setOpeningId('');
+    }
+  };
+
+  return (
+    <>
+      {/* Animated Grid Background */}
+      <div className="fixed inset-0 w-full h-full -z-10 overflow-hidden pointer-events-none">
+        <div className="absolute inset-0 w-[200%] h-[200%] animate-[gridMove_30s_linear_infinite]"
+          style={{
+            backgroundImage: `
+              linear-gradient(rgba(255,255,255,0.02) 1px, transparent 1px),
+              linear-gradient(90deg, rgba(255,255,255,0.02) 1px, transparent 1px)
+            `,
+            backgroundSize: '60px 60px'
+          }}
+        />
+      </div>
+
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="w-full max-w-2xl py-12">
+        {/* Header */}
+        <div className="text-center mb-6">
+          <Link href="/" className="inline-block">
+            <div className="flex items-center justify-center gap-4 mb-3">
+              <img
+                src="/darknote.jpg"
+                alt="DarkNote"
+                className="w-12 h-12 rounded-lg border border-zinc-700"
+              />
+              <h1 className="text-5xl font-black tracking-wider" style={{ fontFamily: 'var(--font-orbitron)' }}>
+                <span className="bg-gradient-to-r from-zinc-600 to-zinc-400 bg-clip-text text-transparent">
+                  DARK
+                </span>
+                <span className="bg-gradient-to-r from-purple-400 to-purple-600 bg-clip-text text-transparent">
+                  NOTE
+                </span>
+              </h1>
+            </div>
+          </Link>
+          <p className="text-gray-400 text-sm">
+            Inbox
+          </p>
+          <p className="text-gray-500 text-xs mt-2">
+            Encrypted notes waiting for your wallet
+          </p>
+        </div>
+
+        {/* Main Card */}
+        <div className="bg-zinc-900/50 backdrop-blur-xl border border-zinc-800 rounded-xl p-6 shadow-2xl">
+          {/* Wallet Connect */}
+          <div className="mb-5 flex justify-center">
+            <WalletMultiButton />
+          </div>
+
+          {/* Error */}
+          {error && (
+            <div className="mb-5 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-400 text-xs">
+              {error}
+            </div>
+          )}
+
+          {publicKey && notes === null && (
+            <>
+              <button
+                onClick={loadInbox}
+                disabled={loading}
+                className="w-full py-3 bg-white text-black font-medium rounded-lg hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              >
+                {loading ? 'Loading inbox...' : 'Sign In & Load Inbox'}
+              </button>
+              <div className="mt-4 p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg">
+                <p className="text-blue-300 text-xs">
+                  Your wallet signs a one-time challenge to prove it owns this address. No transaction is sent.
+                </p>
+              </div>
+            </>
+          )}
+
+          {notes !== null && notes.length === 0 && (
+            <p className="text-center text-gray-400 text-sm py-6">No pending notes for this wallet.</p>
+          )}
+
+          {/* Dead Man's Switch Notice */}
+          {notes !== null && notes.some((note) => note.releasedAt !== null) && (
+            <div className="mb-5 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+              <p className="text-yellow-300 text-xs">
+                Some notes below were released by a dead man&apos;s switch: their sender stopped checking in.
+              </p>
+            </div>
+          )}
+
+          {notes !== null && notes.length > 0 && (
+            <div className="space-y-3">
+              {notes.map((note) => (
+                <div key={note.id} className="p-4 bg-black/50 border border-zinc-700 rounded-lg">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-xs text-gray-300">
+                        {note.releasedAt !== null
+                          ? `Released ${new Date(note.releasedAt).toLocaleString()} • Sender stopped checking in`
+                          : `Received ${new Date(note.createdAt).toLocaleString()}`}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {note.maxReads
+                          ? `Reads ${note.currentReads} / ${note.maxReads}`
+                          : note.selfDestruct
+                            ? 'Self-destructs on decrypt'
+                            : `Read ${note.currentReads} time(s)`}
+                        {note.unlockAt !== null && isLocked(note) && ` • Unlocks ${formatTimeRemaining(note.unlockAt)}`}
+                        {note.expiresAt && ` • Expires ${formatTimeRemaining(note.expiresAt)}`}
+                      </p>
+                    </div>
+                    {!decrypted[note.id] && (
+                      <button
+                        onClick={() => handleDecrypt(note)}
+                        disabled={openingId !== '' || isLocked(note)}
+                        className="flex-shrink-0 px-4 py-2 bg-white text-black text-xs font-medium rounded-md hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {openingId === note.id ? 'Decrypting...' : isLocked(note) ? 'Locked' : 'Decrypt'}
+                      </button>
+                    )}
+                  </div>
+
+                  {decrypted[note.id] && (
+                    <div className="mt-3 space-y-3">
+                      <SenderBadge sender={decrypted[note.id].sender} />
+                      {decrypted[note.id].replyTo && (
+                        <p className="text-xs text-gray-500">
+                          In reply to your note <span className="font-mono">{decrypted[note.id].replyTo}</span>
+                        </p>
+                      )}
+                      <div className="p-4 bg-black/50 border border-zinc-800 rounded-lg">
+                        <p className="text-white whitespace-pre-wrap break-words text-sm leading-relaxed">
+                          {decrypted[note.id].text}
+                        </p>
+                      </div>
+                      <AttachmentList attachments={decrypted[note.id].attachments} />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="text-center mt-6 text-gray-500 text-xs">
+          <Link href="/" className="hover:text-gray-400 transition">← Back to DarkNote</Link>
+        </div>
+      </div>
+      {/* Version */}
+      <div className="fixed bottom-4 right-4 group">
+        <div className="bg-zinc-900/50 backdrop-blur-xl border border-zinc-800 rounded-lg px-3 py-2 text-xs text-gray-300">
+          {process.env.NEXT_PUBLIC_GIT_SHA || 'dev'}
+        </div>
+        <div className="absolute bottom-full right-0 mb-2 hidden group-hover:block">
+          <div className="bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-xs text-gray-300 whitespace-nowrap">
+            Verifies deployed code matches GitHub commit
+          </div>
+        </div>
+      </div>
+    </div>
+    </>
+  );
+}
@@ -4,7 +4,32 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
-import { deriveEncryptionKeyFromSignature } from '@/lib/crypto';
+import { deriveEncryptionKeyFromSignature, CURRENT_DERIVATION_SCHEME, DerivationScheme } from '@/lib/crypto';
+import {
+  registerEncryptionKey,
+  fetchEncryptionKey,
+  revokeEncryptionKey,
+  setPowDifficulty,
+  fetchInboundPolicy,
+  saveInboundPolicy,
+} from '@/lib/api';
+import { InboundPolicy, MAX_POLICY_SENDERS } from '@/lib/policy';
+
+// Proof-of-work levels a recipient can ask of senders (leading zero bits;
+// each level is ~16x the work of the one before)
+const POW_OPTIONS = [
+  { label: 'Off', value: 0 },
+  { label: 'Low', value: 16 },
+  { label: 'Medium', value: 20 },
+  { label: 'High', value: 24 },
+];
+
+const POLICY_OPTIONS: { label: string; value: InboundPolicy; description: string }[] = [
+  { label: 'Anyone', value: 'anyone', description: 'Anyone can send you notes, signed or anonymous.' },
+  { label: 'Signed only', value: 'signed-only', description: 'Only senders who identify with their wallet. The server learns who sent each note.' },
+  { label: 'Allow-list', value: 'allow-list', description: 'Only the wallets listed below can send you notes.' },
+  { label: 'Block-list', value: 'block-list', description: 'Identified senders listed below are refused. Anonymous notes are still accepted.' },
+];
 
 export default function KeysPage() {
   const { publicKey, signMessage } = useWallet();
@@ -14,6 +39,18 @@ export default function KeysPage() {
   const [error, setError] = useState('');
   const [copied, setCopied] = useState(false);
   const [registered, setRegistered] = useState(false);
+  const [keyVersion, setKeyVersion] = useState(1);
+  const [keyScheme, setKeyScheme] = useState<DerivationScheme>(CURRENT_DERIVATION_SCHEME);
+  const [rotating, setRotating] = useState(false);
+  const [showRevoke, setShowRevoke] = useState(false);
+  const [revocationReason, setRevocationReason] = useState('');
+  const [powDifficulty, setPowDifficultyState] = useState(0);
+  const [savingPow, setSavingPow] = useState(false);
+  // null until the current policy is loaded (needs a signature)
+  const [inboundPolicy, setInboundPolicy] = useState<InboundPolicy | null>(null);
+  const [policySenders, setPolicySenders] = useState('');
+  const [policyBusy, setPolicyBusy] = useState(false);
+  const [policySaved, setPolicySaved] = useState(false);
 
   const deriveKey = async () => {
     if (!publicKey || !signMessage) {
@@ -24,27 +61,46 @@ export default function KeysPage() {
     setError('');
 
     try {
+      // Derive the wallet's current key version (1 if nothing is
+      // registered); a revoked key is replaced by the next version
+      const current = await fetchEncryptionKey(publicKey.toBase58());
+      const version =
+        current.status === 'registered'
+          ? current.key.version
+          : current.status === 'revoked'
+            ? current.version + 1
+            : 1;
+      // Existing keys keep the scheme they were registered with
+      const scheme = current.status === 'registered' ? current.scheme : CURRENT_DERIVATION_SCHEME;
+      if (current.status === 'registered') {
+        setPowDifficultyState(current.powDifficulty);
+      }
+
       const { publicKey: encPubKey } = await deriveEncryptionKeyFromSignature(
         signMessage,
-        publicKey.toBase58()
+        publicKey.toBase58(),
+        version,
+        scheme
       );
       setEncryptionPublicKey(encPubKey);
+      setKeyVersion(version);
+      setKeyScheme(scheme);
 
       // Auto-register the key
       setRegistering(true);
-      const response = await fetch('/api/keys/register', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          walletAddress: publicKey.toBase58(),
-          encryptionPublicKey: encPubKey,
-        }),
-      });
+      const response = await registerEncryptionKey(
+        signMessage,
+        publicKey.toBase58(),
+        encPubKey,
+        version,
+        scheme
+      );
 
       if (response.ok) {
         setRegistered(true);
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to register key');
       }
       setRegistering(false);
     } catch (err) {
@@ -56,6 +112,150 @@ export default function KeysPage() {
     }
   };
 
+  // Rotate to the next key version. Older versions stay registered, so
+  // notes already encrypted to them can still be decrypted.
+  // With revoke set, the current version is revoked first so senders
+  // stop encrypting to it even before the new key is registered.
+  const rotateKey = async (revoke: boolean = false) => {
+    if (!publicKey || !signMessage) {
+      return;
+    }
+
+    setRotating(true);
+    setError('');
+
+    try {
+      if (revoke) {
+        const revokeResponse = await revokeEncryptionKey(
+          signMessage,
+          publicKey.toBase58(),
+          keyVersion,
+          revocationReason.trim()
+        );
+
+        // Already revoked is fine - go on and re-register
+        if (!revokeResponse.ok && revokeResponse.status !== 409) {
+          const data = await revokeResponse.json();
+          throw new Error(data.error || 'Failed to revoke key');
+        }
+      }
+
+      const nextVersion = keyVersion + 1;
+      const { publicKey: encPubKey } = await deriveEncryptionKeyFromSignature(
+        signMessage,
+        publicKey.toBase58(),
+        nextVersion,
+        CURRENT_DERIVATION_SCHEME
+      );
+
+      const response = await registerEncryptionKey(
+        signMessage,
+        publicKey.toBase58(),
+        encPubKey,
+        nextVersion,
+        CURRENT_DERIVATION_SCHEME
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to rotate key');
+      }
+
+      setEncryptionPublicKey(encPubKey);
+      setKeyVersion(nextVersion);
+      setKeyScheme(CURRENT_DERIVATION_SCHEME);
+      setShowRevoke(false);
+      setRevocationReason('');
+    } catch (err) {
+      console.error('Key rotation error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to rotate key');
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const savePowDifficulty = async (difficulty: number) => {
+    if (!publicKey || !signMessage) {
+      return;
+    }
+
+    setSavingPow(true);
+    setError('');
+
+    try {
+      const response = await setPowDifficulty(signMessage, publicKey.toBase58(), difficulty);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save anti-spam setting');
+      }
+
+      // The server-wide minimum may be higher than what was asked for
+      setPowDifficultyState(data.effectiveDifficulty);
+    } catch (err) {
+      console.error('Anti-spam setting error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save anti-spam setting');
+    } finally {
+      setSavingPow(false);
+    }
+  };
+
+  const loadInboundPolicy = async () => {
+    if (!publicKey || !signMessage) {
+      return;
+    }
+
+    setPolicyBusy(true);
+    setError('');
+
+    try {
+      const policy = await fetchInboundPolicy(signMessage, publicKey.toBase58());
+      setInboundPolicy(policy.inboundPolicy);
+      setPolicySenders(policy.senders.join('\n'));
+    } catch (err) {
+      console.error('Inbound policy error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load inbound policy');
+    } finally {
+      setPolicyBusy(false);
+    }
+  };
+
+  const handleSaveInboundPolicy = async () => {
+    if (!publicKey || !signMessage || !inboundPolicy) {
+      return;
+    }
+
+    const senders = inboundPolicy === 'allow-list' || inboundPolicy === 'block-list'
+      ? policySenders.split(/[\s,]+/).filter(Boolean)
+      : [];
+
+    if (senders.length > MAX_POLICY_SENDERS) {
+      setError(`A sender list can have at most ${MAX_POLICY_SENDERS} addresses`);
+      return;
+    }
+
+    setPolicyBusy(true);
+    setPolicySaved(false);
+    setError('');
+
+    try {
+      const response = await saveInboundPolicy(signMessage, publicKey.toBase58(), inboundPolicy, senders);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save inbound policy');
+      }
+
+      setPolicySenders(data.senders.join('\n'));
+      setPolicySaved(true);
+    } catch (err) {
+      console.error('Inbound policy error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save inbound policy');
+    } finally {
+      setPolicyBusy(false);
+    }
+  };
+
   const copyToClipboard = () => {
     navigator.clipboard.writeText(encryptionPublicKey);
     setCopied(true);
@@ -63,7 +263,7 @@ export default function KeysPage() {
   };
 
   const registerKey = async () => {
-    if (!publicKey || !encryptionPublicKey) {
+    if (!publicKey || !signMessage || !encryptionPublicKey) {
       return;
     }
 
@@ -71,16 +271,13 @@ export default function KeysPage() {
     setError('');
 
     try {
-      const response = await fetch('/api/keys/register', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          walletAddress: publicKey.toBase58(),
-          encryptionPublicKey,
-        }),
-      });
+      const response = await registerEncryptionKey(
+        signMessage,
+        publicKey.toBase58(),
+        encryptionPublicKey,
+        keyVersion,
+        keyScheme
+      );
 
       if (!response.ok) {
         const data = await response.json();
@@ -111,7 +308,7 @@ export default function KeysPage() {
         />
       </div>
 
-      <div className="h-screen flex items-center justify-center p-4 overflow-hidden">
+      <div className="min-h-screen flex items-center justify-center p-4">
         <div className="w-full max-w-2xl">
         {/* Header */}
         <div className="text-center mb-6">
@@ -202,7 +399,7 @@ export default function KeysPage() {
 
               {/* Encryption Public Key */}
               <div className="mb-5">
-                <label className="block text-xs text-gray-500 mb-1">X25519 Encryption Public Key</label>
+                <label className="block text-xs text-gray-500 mb-1">X25519 Encryption Public Key • Version {keyVersion}</label>
                 <div className="p-3 bg-black/50 border border-zinc-700 rounded-lg">
                   <p className="text-xs text-gray-300 font-mono break-all">{encryptionPublicKey}</p>
                 </div>
@@ -215,7 +412,21 @@ export default function KeysPage() {
                 </p>
               </div>
 
+              {/* Error */}
+              {error && (
+                <div className="mb-5 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-400 text-xs">
+                  {error}
+                </div>
+              )}
+
               <div className="flex gap-3">
+                <button
+                  onClick={() => rotateKey()}
+                  disabled={rotating}
+                  className="flex-1 py-3 bg-zinc-800 text-white font-medium rounded-lg hover:bg-zinc-700 transition text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {rotating ? 'Rotating...' : 'Rotate Key'}
+                </button>
                 <button
                   onClick={copyToClipboard}
                   className="flex-1 py-3 bg-zinc-800 text-white font-medium rounded-lg hover:bg-zinc-700 transition text-sm"
@@ -229,6 +440,136 @@ export default function KeysPage() {
                   Create Note
                 </Link>
               </div>
+              <p className="mt-3 text-xs text-gray-500 text-center">
+                Rotating registers a new key for future notes. Notes sent to older versions stay readable.
+              </p>
+
+              {/* Revoke */}
+              {showRevoke ? (
+                <div className="mt-4 p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
+                  <p className="text-red-300 text-xs mb-3">
+                    Revoke version {keyVersion} if its secret may have leaked, e.g. from a compromised browser.
+                    Senders will refuse to encrypt to it and a new key is registered in its place.
+                  </p>
+                  <input
+                    type="text"
+                    value={revocationReason}
+                    onChange={(e) => setRevocationReason(e.target.value)}
+                    placeholder="Reason (optional)"
+                    maxLength={500}
+                    className="w-full mb-3 px-3 py-2 bg-black/50 border border-zinc-700 rounded-lg text-white placeholder-gray-600 focus:outline-none focus:border-zinc-500 text-xs"
+                  />
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => rotateKey(true)}
+                      disabled={rotating}
+                      className="flex-1 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 text-red-300 text-xs font-medium rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {rotating ? 'Revoking...' : 'Revoke and Re-register'}
+                    </button>
+                    <button
+                      onClick={() => setShowRevoke(false)}
+                      disabled={rotating}
+                      className="flex-1 py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-xs font-medium rounded-md transition disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setShowRevoke(true)}
+                  className="mt-3 w-full text-xs text-red-400 hover:text-red-300 transition"
+                >
+                  Key compromised? Revoke and re-register
+                </button>
+              )}
+
+              {/* Anti-Spam */}
+              <div className="mt-5 p-4 bg-black/30 border border-zinc-800 rounded-lg">
+                <label className="block text-xs font-medium text-gray-400 mb-3">
+                  Anti-spam: proof of work required from senders
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                  {POW_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => savePowDifficulty(option.value)}
+                      disabled={savingPow}
+                      className={`py-2 rounded-md text-xs font-medium border transition disabled:opacity-50 ${
+                        powDifficulty === option.value
+                          ? 'bg-purple-500/20 border-purple-500/50 text-purple-300'
+                          : 'bg-black/50 border-zinc-700 text-gray-400 hover:border-zinc-500'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Senders&apos; browsers must compute a stamp before a note to you is accepted.
+                  Higher levels make flooding your inbox costly, but slow down every sender.
+                </p>
+              </div>
+
+              {/* Inbound Policy */}
+              <div className="mt-3 p-4 bg-black/30 border border-zinc-800 rounded-lg">
+                <label className="block text-xs font-medium text-gray-400 mb-3">
+                  Who can send you notes
+                </label>
+                {inboundPolicy === null ? (
+                  <button
+                    onClick={loadInboundPolicy}
+                    disabled={policyBusy}
+                    className="w-full py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-xs font-medium rounded-md transition disabled:opacity-50"
+                  >
+                    {policyBusy ? 'Loading...' : 'Edit Inbound Policy'}
+                  </button>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-4 gap-2">
+                      {POLICY_OPTIONS.map((option) => (
+                        <button
+                          key={option.value}
+                          onClick={() => {
+                            setInboundPolicy(option.value);
+                            setPolicySaved(false);
+                          }}
+                          className={`py-2 rounded-md text-xs font-medium border transition ${
+                            inboundPolicy === option.value
+                              ? 'bg-purple-500/20 border-purple-500/50 text-purple-300'
+                              : 'bg-black/50 border-zinc-700 text-gray-400 hover:border-zinc-500'
+                          }`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {POLICY_OPTIONS.find((option) => option.value === inboundPolicy)?.description}
+                    </p>
+                    {(inboundPolicy === 'allow-list' || inboundPolicy === 'block-list') && (
+                      <textarea
+                        value={policySenders}
+                        onChange={(e) => {
+                          setPolicySenders(e.target.value);
+                          setPolicySaved(false);
+                        }}
+                        placeholder="Sender wallet addresses, one per line..."
+                        rows={4}
+                        className="w-full mt-3 px-3 py-2 bg-black/50 border border-zinc-700 rounded-lg text-white placeholder-gray-600 focus:outline-none focus:border-zinc-500 font-mono text-xs resize-none"
+                      />
+                    )}
+                    <button
+                      onClick={handleSaveInboundPolicy}
+                      disabled={policyBusy}
+                      className="w-full mt-3 py-2 bg-white text-black text-xs font-medium rounded-md hover:bg-gray-200 transition disabled:opacity-50"
+                    >
+                      {policyBusy ? 'Saving...' : policySaved ? '✓ Saved' : 'Save Policy'}
+                    </button>
+                  </>
+                )}
+              </div>
             </>
           )}
         </div>
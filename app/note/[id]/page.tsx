@@ -4,17 +4,27 @@ import { useEffect, useState, use } from 'react';
 import Link from 'next/link';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
-import { decryptMessage, deriveEncryptionKeyFromSignature } from '@/lib/crypto';
+import { AttachmentKey, DecryptedNote, decryptLinkMessage, deriveLinkAccess } from '@/lib/crypto';
+import { openNote, openLinkNote, fetchEncryptionKey, fetchCurrentKeyVersion, deriveSecretKeyForVersion, createEncryptedNote, decryptOpenedNote, OpenedNote } from '@/lib/api';
+import { formatCountdown, formatTimeRemaining } from '@/lib/format';
+import { SenderBadge } from '@/components/SenderBadge';
+import { AttachmentList } from '@/components/AttachmentList';
 
 interface Note {
   id: string;
-  ciphertext: string;
-  nonce: string;
-  ephemeralPublicKey: string;
-  recipientAddress: string;
+  mode: 'direct' | 'multi' | 'link';
+  // null for multi-recipient and link notes
+  recipientAddress: string | null;
   selfDestruct: boolean;
   maxReads: number | null;
   currentReads: number;
+  // Scheduled notes cannot be opened before this time
+  unlockAt: number | null;
+  // Dead man's switch notes stay sealed until releasedAt is set
+  deadManSwitch: boolean;
+  releasedAt: number | null;
+  expiresAt: number | null;
+  keyVersion: number | null;
 }
 
 export default function ViewNotePage({ params }: { params: Promise<{ id: string }> }) {
@@ -22,16 +32,44 @@ export default function ViewNotePage({ params }: { params: Promise<{ id: string
   const { publicKey, signMessage } = useWallet();
   const [note, setNote] = useState<Note | null>(null);
   const [decryptedMessage, setDecryptedMessage] = useState('');
+  const [sender, setSender] = useState<DecryptedNote['sender']>(null);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<AttachmentKey[]>([]);
+  const [showReply, setShowReply] = useState(false);
+  const [replyMessage, setReplyMessage] = useState('');
+  const [sendingReply, setSendingReply] = useState(false);
+  const [replyUrl, setReplyUrl] = useState('');
+  const [replyError, setReplyError] = useState('');
   const [loading, setLoading] = useState(true);
   const [decrypting, setDecrypting] = useState(false);
+  const [burned, setBurned] = useState(false);
   const [error, setError] = useState('');
+  // Link notes: key and passphrase flag from the URL fragment (#k=...&p=1)
+  const [linkKey, setLinkKey] = useState<string | null>(null);
+  const [linkHasPassphrase, setLinkHasPassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [now, setNow] = useState(() => Date.now());
 
+  const locked = note?.unlockAt != null && note.unlockAt > now;
 
   useEffect(() => {
     fetchNote();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [resolvedParams.id]);
 
+  // Tick the countdown until a scheduled note unlocks
+  useEffect(() => {
+    if (!locked) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [locked]);
+
+  useEffect(() => {
+    const fragment = new URLSearchParams(window.location.hash.slice(1));
+    setLinkKey(fragment.get('k'));
+    setLinkHasPassphrase(fragment.get('p') === '1');
+  }, []);
+
   const fetchNote = async () => {
     try {
       const response = await fetch(`/api/notes/${resolvedParams.id}`);
@@ -60,7 +98,9 @@ export default function ViewNotePage({ params }: { params: Promise<{ id: string
       return;
     }
 
-    if (publicKey.toBase58() !== note.recipientAddress) {
+    // Multi-recipient notes don't reveal their recipients - the server
+    // rejects the open if this wallet isn't one of them
+    if (note.mode === 'direct' && publicKey.toBase58() !== note.recipientAddress) {
       setError('This note is not for your wallet. Please connect the correct wallet.');
       return;
     }
@@ -69,55 +109,155 @@ export default function ViewNotePage({ params }: { params: Promise<{ id: string
     setError('');
 
     try {
-      const { secretKey } = await deriveEncryptionKeyFromSignature(
-        signMessage,
-        publicKey.toBase58()
-      );
+      // Direct notes say which key version they were encrypted to; for
+      // multi-recipient notes start from this wallet's current version
+      const version =
+        note.keyVersion ?? (await fetchCurrentKeyVersion(publicKey.toBase58()));
+      let secretKey = await deriveSecretKeyForVersion(signMessage, publicKey.toBase58(), version);
 
-      const decrypted = decryptMessage(
-        note.ciphertext,
-        note.nonce,
-        note.ephemeralPublicKey,
-        secretKey
-      );
+      // Consume one read - the server burns the note when its budget is spent
+      const response = await openNote(signMessage, publicKey.toBase58(), resolvedParams.id);
 
-      setDecryptedMessage(decrypted);
+      if (!response.ok) {
+        if (response.status === 404) {
+          setNote(null);
+          setError('Note not found. It may have already been destroyed.');
+        } else {
+          const data = await response.json();
+          setError(data.error || 'Failed to open note');
+        }
+        return;
+      }
 
-      // Increment read count after successful decryption
-      try {
-        const incrementResponse = await fetch(`/api/notes/${resolvedParams.id}/increment`, {
-          method: 'POST',
-        });
+      const opened: OpenedNote = await response.json();
 
-        if (incrementResponse.ok) {
-          const data = await incrementResponse.json();
-          // Update note state with new read count
-          setNote({ ...note, currentReads: data.currentReads });
-        }
-      } catch (incrementErr) {
-        console.error('Failed to increment read count:', incrementErr);
+      // Encrypted to a key version this wallet has since rotated away from
+      if (opened.keyVersion !== version) {
+        secretKey = await deriveSecretKeyForVersion(signMessage, publicKey.toBase58(), opened.keyVersion);
       }
 
-      // Only delete immediately if self-destruct is enabled AND no maxReads is set
-      // If maxReads is set, the API will handle deletion when limit is reached
-      if (note.selfDestruct && note.maxReads === null) {
-        try {
-          await fetch(`/api/notes/${resolvedParams.id}`, {
-            method: 'DELETE',
-          });
-        } catch (deleteErr) {
-          console.error('Failed to delete note:', deleteErr);
-          // Don't show error to user since message was decrypted successfully
+      const decrypted = decryptOpenedNote(opened, secretKey, publicKey.toBase58());
+
+      setDecryptedMessage(decrypted.text);
+      setSender(decrypted.sender);
+      setReplyTo(decrypted.replyTo);
+      setAttachments(decrypted.attachments);
+      setNote({ ...note, currentReads: opened.currentReads });
+      setBurned(opened.burned);
+    } catch (err) {
+      console.error('Decryption error:', err);
+      setError('Failed to decrypt message. You may not be the intended recipient or the message may be corrupted.');
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  // Link notes need no wallet: the key comes from the URL fragment
+  const handleDecryptLink = async () => {
+    if (!note || !linkKey) {
+      return;
+    }
+
+    if (linkHasPassphrase && !passphrase) {
+      setError('Please enter the passphrase');
+      return;
+    }
+
+    setDecrypting(true);
+    setError('');
+
+    try {
+      const { noteKey, accessProof } = await deriveLinkAccess(
+        linkKey,
+        linkHasPassphrase ? passphrase : undefined
+      );
+
+      // The server checks the access proof first, so a wrong passphrase
+      // does not spend a read
+      const response = await openLinkNote(resolvedParams.id, accessProof);
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          setNote(null);
+          setError('Note not found. It may have already been destroyed.');
+        } else if (response.status === 403) {
+          setError(linkHasPassphrase ? 'Wrong passphrase.' : 'This link is invalid or incomplete.');
+        } else {
+          const data = await response.json();
+          setError(data.error || 'Failed to open note');
         }
+        return;
       }
+
+      const opened: OpenedNote = await response.json();
+      const decrypted = decryptLinkMessage(opened.ciphertext, opened.nonce, noteKey);
+
+      setDecryptedMessage(decrypted.text);
+      setSender(decrypted.sender);
+      setReplyTo(decrypted.replyTo);
+      setAttachments(decrypted.attachments);
+      setNote({ ...note, currentReads: opened.currentReads });
+      setBurned(opened.burned);
     } catch (err) {
       console.error('Decryption error:', err);
-      setError('Failed to decrypt message. You may not be the intended recipient or the message may be corrupted.');
+      setError('Failed to decrypt message. The link may be incomplete or the message may be corrupted.');
     } finally {
       setDecrypting(false);
     }
   };
 
+  // Replies go to the sender's registered key and are signed by this wallet,
+  // so the original sender sees them as verified in their inbox
+  const handleSendReply = async () => {
+    if (!sender?.verified) {
+      return;
+    }
+
+    if (!publicKey || !signMessage) {
+      setReplyError('Connect your wallet to send a reply');
+      return;
+    }
+
+    if (!replyMessage.trim()) {
+      setReplyError('Please enter a reply');
+      return;
+    }
+
+    setSendingReply(true);
+    setReplyError('');
+
+    try {
+      const senderKey = await fetchEncryptionKey(sender.address, { address: publicKey.toBase58(), signMessage });
+      if (senderKey.status === 'missing') {
+        setReplyError("The sender hasn't registered an encryption key, so they can't receive a reply.");
+        return;
+      }
+      if (senderKey.status === 'revoked') {
+        setReplyError('The sender has revoked their encryption key. They need to register a new one before you can reply.');
+        return;
+      }
+      if (senderKey.senderAccepted === false) {
+        setReplyError("The sender's inbound policy does not accept notes from your wallet.");
+        return;
+      }
+
+      const { noteId } = await createEncryptedNote(replyMessage, [senderKey.key], {
+        sender: { address: publicKey.toBase58(), signMessage },
+        replyTo: resolvedParams.id,
+        powDifficulty: senderKey.powDifficulty,
+        identifySender: senderKey.inboundPolicy !== 'anyone',
+      });
+
+      setReplyUrl(`${window.location.origin}/note/${noteId}`);
+      setReplyMessage('');
+    } catch (err) {
+      console.error('Reply error:', err);
+      setReplyError(err instanceof Error ? err.message : 'Failed to send reply');
+    } finally {
+      setSendingReply(false);
+    }
+  };
+
   if (loading) {
     return (
       <>
@@ -193,7 +333,7 @@ export default function ViewNotePage({ params }: { params: Promise<{ id: string
         />
       </div>
 
-      <div className="h-screen flex items-center justify-center p-4 overflow-hidden">
+      <div className="min-h-screen flex items-center justify-center p-4">
         {/* Header Bar - Top */}
         <div className="absolute top-4 right-4 flex items-center gap-3 animate-[fadeIn_0.6s_ease-out_1s_forwards] opacity-0">
           <button
@@ -254,7 +394,9 @@ export default function ViewNotePage({ params }: { params: Promise<{ id: string
                 <div className="text-center mb-6">
                   <h2 className="text-xl font-bold text-white mb-2">Encrypted Message</h2>
                   <p className="text-gray-400 text-sm">
-                    Connect your wallet to decrypt and read this message
+                    {note?.mode === 'link'
+                      ? 'No wallet needed - the key to this message is in your link'
+                      : 'Connect your wallet to decrypt and read this message'}
                   </p>
                 </div>
 
@@ -263,11 +405,15 @@ export default function ViewNotePage({ params }: { params: Promise<{ id: string
                   <div className="mb-6 space-y-4">
                     <div className="p-4 bg-black/50 border border-zinc-700 rounded-lg">
                       <p className="text-xs text-gray-500 mb-2">Recipient Address</p>
-                      <p className="text-sm text-gray-300 font-mono break-all">{note.recipientAddress}</p>
+                      <p className="text-sm text-gray-300 font-mono break-all">
+                        {note.mode === 'link'
+                          ? 'Anyone with the link'
+                          : note.recipientAddress ?? 'Multiple recipients • Each recipient decrypts with their own wallet'}
+                      </p>
                     </div>
 
                     <div className="flex gap-3">
-                      {note.maxReads && (
+                      {note.maxReads && note.mode !== 'multi' && (
                         <div className="flex-1 p-3 bg-purple-500/10 border border-purple-500/30 rounded-lg text-center">
                           <p className="text-xs text-purple-400 mb-1">Read Count</p>
                           <p className="text-sm font-semibold text-purple-300">
@@ -281,6 +427,16 @@ export default function ViewNotePage({ params }: { params: Promise<{ id: string
                           <p className="text-xs text-yellow-400 mb-1">Self-Destruct</p>
                           <p className="text-sm font-semibold text-yellow-300">
                             {note.maxReads ? `After ${note.maxReads} reads` : 'On decrypt'}
+                            {note.mode === 'multi' && ' each'}
+                          </p>
+                        </div>
+                      )}
+
+                      {note.expiresAt && (
+                        <div className="flex-1 p-3 bg-zinc-500/10 border border-zinc-500/30 rounded-lg text-center">
+                          <p className="text-xs text-gray-400 mb-1">Expires</p>
+                          <p className="text-sm font-semibold text-gray-300">
+                            {formatTimeRemaining(note.expiresAt)}
                           </p>
                         </div>
                       )}
@@ -288,10 +444,32 @@ export default function ViewNotePage({ params }: { params: Promise<{ id: string
                   </div>
                 )}
 
-                {/* Wallet Connect */}
-                <div className="mb-6 flex justify-center">
-                  <WalletMultiButton className="!py-3 !px-6" />
-                </div>
+                {note?.mode === 'link' ? (
+                  !linkKey ? (
+                    <div className="mb-5 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-300 text-xs">
+                      This link is missing its key (the part after #). Ask the sender for the full link.
+                    </div>
+                  ) : linkHasPassphrase && (
+                    /* Passphrase */
+                    <div className="mb-5">
+                      <label className="block text-xs font-medium text-gray-400 mb-2">
+                        Passphrase
+                      </label>
+                      <input
+                        type="password"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        placeholder="Enter the passphrase the sender gave you..."
+                        className="w-full px-4 py-3 bg-black/50 border border-zinc-700 rounded-lg text-white placeholder-gray-600 focus:outline-none focus:border-zinc-500 focus:ring-1 focus:ring-zinc-500 text-sm transition"
+                      />
+                    </div>
+                  )
+                ) : (
+                  /* Wallet Connect */
+                  <div className="mb-6 flex justify-center">
+                    <WalletMultiButton className="!py-3 !px-6" />
+                  </div>
+                )}
 
                 {/* Error */}
                 {error && (
@@ -300,8 +478,35 @@ export default function ViewNotePage({ params }: { params: Promise<{ id: string
                   </div>
                 )}
 
-                {/* Decrypt Button */}
-                {publicKey && (
+                {/* Seal (dead man's switch), Countdown (scheduled notes) or Decrypt Button */}
+                {note?.deadManSwitch && note.releasedAt === null ? (
+                  <div className="p-5 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-center">
+                    <p className="text-sm font-semibold text-yellow-300 mb-2">Sealed by a dead man&apos;s switch</p>
+                    <p className="text-xs text-gray-400">
+                      This note opens only if its sender stops checking in. Once released it will show up in your inbox.
+                    </p>
+                  </div>
+                ) : note?.unlockAt != null && locked ? (
+                  <div className="p-5 bg-blue-500/10 border border-blue-500/30 rounded-lg text-center">
+                    <p className="text-xs text-blue-400 mb-2">Unlocks in</p>
+                    <p className="text-2xl font-mono font-semibold text-blue-300">
+                      {formatCountdown(note.unlockAt, now)}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {new Date(note.unlockAt).toLocaleString()}
+                    </p>
+                  </div>
+                ) : note?.mode === 'link' ? (
+                  linkKey && (
+                    <button
+                      onClick={handleDecryptLink}
+                      disabled={decrypting}
+                      className="w-full py-3 bg-white text-black font-medium rounded-lg hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                    >
+                      {decrypting ? 'Decrypting...' : 'Decrypt & Read Message'}
+                    </button>
+                  )
+                ) : publicKey && (
                   <button
                     onClick={handleDecrypt}
                     disabled={decrypting}
@@ -322,12 +527,22 @@ export default function ViewNotePage({ params }: { params: Promise<{ id: string
                     <h2 className="text-lg font-bold text-white">Message Decrypted</h2>
                   </div>
                   <p className="text-gray-400 text-xs">
-                    {note?.selfDestruct && (!note.maxReads || note.currentReads >= note.maxReads)
+                    {burned
                       ? 'This message has been destroyed'
                       : 'Message successfully decrypted'}
                   </p>
                 </div>
 
+                {/* Sender */}
+                <div className="mb-4">
+                  <SenderBadge sender={sender} />
+                  {replyTo && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      In reply to your note <span className="font-mono">{replyTo}</span>
+                    </p>
+                  )}
+                </div>
+
                 {/* Message Content */}
                 <div className="mb-5 p-6 bg-black/50 border border-zinc-700 rounded-lg min-h-[200px]">
                   <p className="text-white whitespace-pre-wrap break-words text-base leading-relaxed">
@@ -351,6 +566,58 @@ export default function ViewNotePage({ params }: { params: Promise<{ id: string
                   </p>
                 </div>
 
+                {/* Attachments */}
+                {attachments.length > 0 && (
+                  <div className="mb-5">
+                    <AttachmentList attachments={attachments} />
+                  </div>
+                )}
+
+                {/* Reply */}
+                {replyUrl ? (
+                  <div className="mb-5 p-4 bg-green-500/10 border border-green-500/30 rounded-lg">
+                    <p className="text-green-400 text-xs mb-2">
+                      Reply sent • It is waiting in the sender&apos;s inbox. You can also share this link:
+                    </p>
+                    <p className="text-xs text-gray-300 break-all font-mono">{replyUrl}</p>
+                  </div>
+                ) : showReply ? (
+                  <div className="mb-5">
+                    <textarea
+                      value={replyMessage}
+                      onChange={(e) => setReplyMessage(e.target.value)}
+                      placeholder="Write your encrypted reply..."
+                      rows={4}
+                      className="w-full px-4 py-3 mb-3 bg-black/50 border border-zinc-700 rounded-lg text-white placeholder-gray-600 focus:outline-none focus:border-zinc-500 focus:ring-1 focus:ring-zinc-500 resize-none transition text-sm"
+                    />
+                    {replyError && (
+                      <div className="mb-3 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-400 text-xs">
+                        {replyError}
+                      </div>
+                    )}
+                    <button
+                      onClick={handleSendReply}
+                      disabled={sendingReply}
+                      className="w-full py-3 bg-white text-black font-medium rounded-lg hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                    >
+                      {sendingReply ? 'Encrypting reply...' : 'Send Encrypted Reply'}
+                    </button>
+                  </div>
+                ) : sender?.verified ? (
+                  <button
+                    onClick={() => setShowReply(true)}
+                    className="w-full mb-3 py-3 bg-white text-black font-medium rounded-lg hover:bg-gray-200 transition text-sm"
+                  >
+                    Reply
+                  </button>
+                ) : (
+                  <p className="mb-3 text-center text-xs text-gray-500">
+                    {sender
+                      ? "Replies are disabled because the sender's signature could not be verified."
+                      : 'This note is anonymous, so there is no one to reply to.'}
+                  </p>
+                )}
+
                 {/* Actions */}
                 <Link
                   href="/"
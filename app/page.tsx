@@ -4,7 +4,56 @@ import { useState, useEffect } from 'react';
 import dynamic from 'next/dynamic';
 import { PublicKey } from '@solana/web3.js';
 import { useWallet } from '@solana/wallet-adapter-react';
-import { encryptMessage, generateNoteId, deriveEncryptionKeyFromSignature } from '@/lib/crypto';
+import { deriveEncryptionKeyFromSignature, CURRENT_DERIVATION_SCHEME, RecipientKey } from '@/lib/crypto';
+import { registerEncryptionKey, fetchEncryptionKey, createEncryptedNote, createLinkNote, EncryptionKeyLookup } from '@/lib/api';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const EXPIRY_OPTIONS = [
+  { label: '1 hour', value: HOUR_MS },
+  { label: '1 day', value: DAY_MS },
+  { label: '7 days', value: 7 * DAY_MS },
+  { label: '30 days', value: 30 * DAY_MS },
+];
+
+const CHECK_IN_OPTIONS = [
+  { label: '1 day', value: DAY_MS },
+  { label: '7 days', value: 7 * DAY_MS },
+  { label: '30 days', value: 30 * DAY_MS },
+];
+
+// Must match MAX_RECIPIENTS in app/api/notes/route.ts
+const MAX_RECIPIENTS = 20;
+
+// Must match MAX_ATTACHMENTS in app/api/notes/route.ts
+const MAX_ATTACHMENTS = 5;
+
+// Several recipients may be separated by commas, spaces or new lines
+function parseRecipientAddresses(value: string): string[] {
+  return Array.from(new Set(value.split(/[\s,]+/).filter(Boolean)));
+}
+
+// Why a recipient's inbound policy would refuse this note, if it would
+function policyProblem(address: string, lookup: EncryptionKeyLookup, signed: boolean): string | null {
+  if (lookup.status !== 'registered') return null;
+
+  if (lookup.senderAccepted === false) {
+    return lookup.inboundPolicy === 'block-list'
+      ? `${address} does not accept notes from your wallet.`
+      : `${address} only accepts notes from approved senders, and your wallet is not one of them.`;
+  }
+
+  if (!signed && lookup.inboundPolicy === 'signed-only') {
+    return `${address} only accepts notes from identified senders. Connect your wallet and turn on "Sign as my wallet".`;
+  }
+
+  if (!signed && lookup.inboundPolicy === 'allow-list') {
+    return `${address} only accepts notes from approved senders. Connect an approved wallet and turn on "Sign as my wallet".`;
+  }
+
+  return null;
+}
 
 const WalletMultiButton = dynamic(
   async () => (await import('@solana/wallet-adapter-react-ui')).WalletMultiButton,
@@ -14,15 +63,35 @@ const WalletMultiButton = dynamic(
 export default function Home() {
   const { publicKey, signMessage, connected } = useWallet();
   const [message, setMessage] = useState('');
+  // wallet: encrypt to registered keys; link: encrypt under a key carried in the link
+  const [sendMode, setSendMode] = useState<'wallet' | 'link'>('wallet');
   const [recipientAddress, setRecipientAddress] = useState('');
+  const [passphrase, setPassphrase] = useState('');
   const [loading, setLoading] = useState(false);
+  // Proof-of-work stamp progress (0 to 1) while one is being solved
+  const [powProgress, setPowProgress] = useState<number | null>(null);
   const [noteUrl, setNoteUrl] = useState('');
+  // When the server deletes the note just created
+  const [noteExpiresAt, setNoteExpiresAt] = useState<number | null>(null);
   const [error, setError] = useState('');
   const [selfDestruct, setSelfDestruct] = useState(true);
   const [maxReads, setMaxReads] = useState<number | null>(null);
+  const [expiresIn, setExpiresIn] = useState(7 * DAY_MS);
+  // Scheduled delivery: a local date and time from the datetime-local input
+  const [deliverLater, setDeliverLater] = useState(false);
+  const [unlockTime, setUnlockTime] = useState('');
+  // Dead man's switch: sealed while the sender checks in this often
+  const [deadManSwitch, setDeadManSwitch] = useState(false);
+  const [checkInInterval, setCheckInInterval] = useState(7 * DAY_MS);
+  const [signAsSender, setSignAsSender] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
   const [hasEncryptionKey, setHasEncryptionKey] = useState<boolean | null>(null);
+  const [revokedKeyVersion, setRevokedKeyVersion] = useState<number | null>(null);
   const [checkingKey, setCheckingKey] = useState(false);
+  const [policyNotices, setPolicyNotices] = useState<string[]>([]);
 
+  // NaN until a time is picked, which the create handler rejects
+  const unlockAt = deliverLater ? new Date(unlockTime).getTime() : null;
 
   // Check if user has registered encryption key when wallet connects
   useEffect(() => {
@@ -34,13 +103,55 @@ export default function Home() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [connected, publicKey]);
 
+  // Check recipients' inbound policies as soon as they are entered, so a
+  // refusal is explained before the message is written
+  useEffect(() => {
+    setPolicyNotices([]);
+    if (sendMode !== 'wallet') return;
+
+    const addresses = parseRecipientAddresses(recipientAddress).filter((address) => {
+      try {
+        new PublicKey(address);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+    if (addresses.length === 0 || addresses.length > MAX_RECIPIENTS) return;
+
+    const signed = signAsSender && !!publicKey;
+    let cancelled = false;
+
+    // Unsigned lookups, so typing never asks the wallet to sign. Whether
+    // an allow-list or block-list takes this sender is checked on send
+    const timer = setTimeout(async () => {
+      const notices: string[] = [];
+      for (const address of addresses) {
+        try {
+          const lookup = await fetchEncryptionKey(address);
+          const problem = policyProblem(address, lookup, signed);
+          if (problem) notices.push(problem);
+        } catch {
+          // Checked again when the note is created
+        }
+      }
+      if (!cancelled) setPolicyNotices(notices);
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [recipientAddress, sendMode, signAsSender, publicKey]);
+
   const checkForEncryptionKey = async () => {
     if (!publicKey) return;
 
     setCheckingKey(true);
     try {
-      const response = await fetch(`/api/keys/${publicKey.toBase58()}`);
-      setHasEncryptionKey(response.ok);
+      const lookup = await fetchEncryptionKey(publicKey.toBase58());
+      setHasEncryptionKey(lookup.status === 'registered');
+      setRevokedKeyVersion(lookup.status === 'revoked' ? lookup.version : null);
     } catch {
       setHasEncryptionKey(false);
     } finally {
@@ -53,24 +164,26 @@ export default function Home() {
 
     setCheckingKey(true);
     try {
+      // A revoked key is replaced by the next version
+      const version = (revokedKeyVersion ?? 0) + 1;
       const { publicKey: encPubKey } = await deriveEncryptionKeyFromSignature(
         signMessage,
-        publicKey.toBase58()
+        publicKey.toBase58(),
+        version,
+        CURRENT_DERIVATION_SCHEME
       );
 
-      const response = await fetch('/api/keys/register', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          walletAddress: publicKey.toBase58(),
-          encryptionPublicKey: encPubKey,
-        }),
-      });
+      const response = await registerEncryptionKey(
+        signMessage,
+        publicKey.toBase58(),
+        encPubKey,
+        version,
+        CURRENT_DERIVATION_SCHEME
+      );
 
       if (response.ok) {
         setHasEncryptionKey(true);
+        setRevokedKeyVersion(null);
       } else {
         throw new Error('Failed to register key');
       }
@@ -91,35 +204,71 @@ export default function Home() {
       return;
     }
 
-    if (!recipientAddress.trim()) {
+    if (unlockAt !== null && !(unlockAt > Date.now())) {
+      setError('Please pick a delivery time in the future');
+      return;
+    }
+
+    if (sendMode === 'link') {
+      await handleCreateLinkNote();
+      return;
+    }
+
+    const recipientAddresses = parseRecipientAddresses(recipientAddress);
+
+    if (recipientAddresses.length === 0) {
       setError('Please enter a recipient address');
       return;
     }
 
-    try {
-      new PublicKey(recipientAddress);
-    } catch {
-      setError('Invalid Solana address');
+    if (recipientAddresses.length > MAX_RECIPIENTS) {
+      setError(`A note can have at most ${MAX_RECIPIENTS} recipients`);
+      return;
+    }
+
+    for (const address of recipientAddresses) {
+      try {
+        new PublicKey(address);
+      } catch {
+        setError(`Invalid Solana address: ${address}`);
+        return;
+      }
+    }
+
+    if (signAsSender && (!publicKey || !signMessage)) {
+      setError('Connect your wallet to sign the note as its sender');
       return;
     }
 
     setLoading(true);
 
     try {
-      let x25519PublicKey: string;
+      const recipients: RecipientKey[] = [];
+      const unregistered: string[] = [];
+      const revoked: string[] = [];
+      const refused: string[] = [];
+      let powDifficulty = 0;
+      let restricted = false;
+
+      const sender = signAsSender && publicKey && signMessage
+        ? { address: publicKey.toBase58(), signMessage }
+        : undefined;
 
       try {
-        const keyResponse = await fetch(`/api/keys/${recipientAddress}`);
-
-        if (keyResponse.ok) {
-          const keyData = await keyResponse.json();
-          x25519PublicKey = keyData.encryptionPublicKey;
-        } else {
-          setError(
-            `Recipient hasn't registered their encryption key yet. Ask them to visit ${window.location.origin}/keys to register.`
-          );
-          setLoading(false);
-          return;
+        for (const address of recipientAddresses) {
+          const lookup = await fetchEncryptionKey(address, sender);
+          const problem = policyProblem(address, lookup, !!sender);
+          if (problem) {
+            refused.push(problem);
+          } else if (lookup.status === 'registered') {
+            recipients.push(lookup.key);
+            powDifficulty = Math.max(powDifficulty, lookup.powDifficulty);
+            restricted = restricted || lookup.inboundPolicy !== 'anyone';
+          } else if (lookup.status === 'revoked') {
+            revoked.push(address);
+          } else {
+            unregistered.push(address);
+          }
         }
       } catch {
         setError('Failed to look up recipient encryption key');
@@ -127,37 +276,103 @@ export default function Home() {
         return;
       }
 
-      const encrypted = encryptMessage(message, x25519PublicKey);
-      const noteId = generateNoteId();
-
-      const response = await fetch('/api/notes', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          id: noteId,
-          ...encrypted,
-          recipientAddress,
-          selfDestruct,
-          maxReads,
-        }),
-      });
+      if (unregistered.length > 0) {
+        setError(
+          recipientAddresses.length === 1
+            ? `Recipient hasn't registered their encryption key yet. Ask them to visit ${window.location.origin}/keys to register.`
+            : `These recipients haven't registered their encryption key yet: ${unregistered.join(', ')}. Ask them to visit ${window.location.origin}/keys to register.`
+        );
+        setLoading(false);
+        return;
+      }
+
+      if (refused.length > 0) {
+        setError(refused.join(' '));
+        setLoading(false);
+        return;
+      }
 
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to create note');
+      // Never encrypt to a key its owner has revoked
+      if (revoked.length > 0) {
+        setError(
+          recipientAddresses.length === 1
+            ? `Recipient has revoked their encryption key. Ask them to register a new one at ${window.location.origin}/keys.`
+            : `These recipients have revoked their encryption key: ${revoked.join(', ')}. Ask them to register a new one at ${window.location.origin}/keys.`
+        );
+        setLoading(false);
+        return;
       }
 
+      const { noteId, expiresAt } = await createEncryptedNote(message, recipients, {
+        sender,
+        selfDestruct,
+        maxReads,
+        unlockAt,
+        checkInInterval: deadManSwitch ? checkInInterval : null,
+        expiresIn,
+        files,
+        powDifficulty,
+        onPowProgress: setPowProgress,
+        // Restrictive inbound policies need to know who is sending, and
+        // only the sender may check in on a dead man's switch
+        identifySender: restricted || deadManSwitch,
+      });
+
       const url = `${window.location.origin}/note/${noteId}`;
       setNoteUrl(url);
+      setNoteExpiresAt(expiresAt);
 
       setMessage('');
       setRecipientAddress('');
+      setFiles([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create note');
+    } finally {
+      setLoading(false);
+      setPowProgress(null);
+    }
+  };
+
+  // Anyone with the link (and passphrase, if set) can read the note
+  const handleCreateLinkNote = async () => {
+    if (signAsSender && (!publicKey || !signMessage)) {
+      setError('Connect your wallet to sign the note as its sender');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const sender = signAsSender && publicKey && signMessage
+        ? { address: publicKey.toBase58(), signMessage }
+        : undefined;
+
+      const { noteId, expiresAt, fragment } = await createLinkNote(message, {
+        sender,
+        passphrase: passphrase || undefined,
+        selfDestruct,
+        maxReads,
+        unlockAt,
+        checkInInterval: deadManSwitch ? checkInInterval : null,
+        expiresIn,
+        files,
+        onPowProgress: setPowProgress,
+        identifySender: deadManSwitch,
+      });
+
+      // The fragment carries the key and is never sent to the server
+      const url = `${window.location.origin}/note/${noteId}#${fragment}`;
+      setNoteUrl(url);
+      setNoteExpiresAt(expiresAt);
+
+      setMessage('');
+      setPassphrase('');
+      setFiles([]);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create note');
     } finally {
       setLoading(false);
+      setPowProgress(null);
     }
   };
 
@@ -247,6 +462,20 @@ export default function Home() {
                   <span>GitHub</span>
                 </a>
                 <span className="text-gray-700">•</span>
+                <a
+                  href="/inbox"
+                  className="text-gray-500 hover:text-gray-300 transition text-xs"
+                >
+                  Inbox
+                </a>
+                <span className="text-gray-700">•</span>
+                <a
+                  href="/switches"
+                  className="text-gray-500 hover:text-gray-300 transition text-xs"
+                >
+                  Switches
+                </a>
+                <span className="text-gray-700">•</span>
                 <a
                   href="/faq"
                   className="text-gray-500 hover:text-gray-300 transition text-xs"
@@ -270,16 +499,28 @@ export default function Home() {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                     </svg>
                     <div className="flex-1">
-                      <p className="text-yellow-400 text-sm font-medium mb-1">One-time setup required</p>
-                      <p className="text-yellow-300/80 text-xs mb-3">
-                        To receive encrypted messages, you need to generate a one-time public key.
-                        This is crucial for zero-knowledge encryption and only needs to be done once.
-                      </p>
+                      {revokedKeyVersion !== null ? (
+                        <>
+                          <p className="text-yellow-400 text-sm font-medium mb-1">Encryption key revoked</p>
+                          <p className="text-yellow-300/80 text-xs mb-3">
+                            Senders can&apos;t encrypt to your wallet until you register a new key.
+                            Notes sent to your old key stay readable.
+                          </p>
+                        </>
+                      ) : (
+                        <>
+                          <p className="text-yellow-400 text-sm font-medium mb-1">One-time setup required</p>
+                          <p className="text-yellow-300/80 text-xs mb-3">
+                            To receive encrypted messages, you need to generate a one-time public key.
+                            This is crucial for zero-knowledge encryption and only needs to be done once.
+                          </p>
+                        </>
+                      )}
                       <button
                         onClick={handleRegisterKey}
                         className="px-4 py-2 bg-yellow-500/20 hover:bg-yellow-500/30 border border-yellow-500/30 text-yellow-300 text-xs font-medium rounded-md transition"
                       >
-                        Generate Encryption Key
+                        {revokedKeyVersion !== null ? 'Register New Key' : 'Generate Encryption Key'}
                       </button>
                     </div>
                   </div>
@@ -302,20 +543,63 @@ export default function Home() {
             {!noteUrl ? (
               <>
 
-                {/* Recipient Address */}
-                <div className="mb-5">
-                  <label className="block text-xs font-medium text-gray-400 mb-2">
-                    Recipient Solana Address
-                  </label>
-                  <input
-                    type="text"
-                    value={recipientAddress}
-                    onChange={(e) => setRecipientAddress(e.target.value)}
-                    placeholder="Enter Solana wallet address..."
-                    className="w-full px-4 py-3 bg-black/50 border border-zinc-700 rounded-lg text-white placeholder-gray-600 focus:outline-none focus:border-zinc-500 focus:ring-1 focus:ring-zinc-500 font-mono text-sm transition"
-                  />
+                {/* Send Mode */}
+                <div className="mb-5 grid grid-cols-2 gap-2">
+                  {(['wallet', 'link'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setSendMode(mode)}
+                      className={`py-2 rounded-md text-xs font-medium border transition ${
+                        sendMode === mode
+                          ? 'bg-purple-500/20 border-purple-500/50 text-purple-300'
+                          : 'bg-black/50 border-zinc-700 text-gray-400 hover:border-zinc-500'
+                      }`}
+                    >
+                      {mode === 'wallet' ? 'To a Wallet' : 'Secret Link'}
+                    </button>
+                  ))}
                 </div>
 
+                {sendMode === 'wallet' ? (
+                  /* Recipient Address */
+                  <div className="mb-5">
+                    <label className="block text-xs font-medium text-gray-400 mb-2">
+                      Recipient Solana Address(es)
+                    </label>
+                    <input
+                      type="text"
+                      value={recipientAddress}
+                      onChange={(e) => setRecipientAddress(e.target.value)}
+                      placeholder="Enter Solana wallet address (separate several with commas)..."
+                      className="w-full px-4 py-3 bg-black/50 border border-zinc-700 rounded-lg text-white placeholder-gray-600 focus:outline-none focus:border-zinc-500 focus:ring-1 focus:ring-zinc-500 font-mono text-sm transition"
+                    />
+                    {policyNotices.length > 0 && (
+                      <div className="mt-2 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg space-y-1">
+                        {policyNotices.map((notice) => (
+                          <p key={notice} className="text-yellow-300 text-xs break-words">{notice}</p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  /* Link Passphrase */
+                  <div className="mb-5">
+                    <label className="block text-xs font-medium text-gray-400 mb-2">
+                      Passphrase <span className="text-gray-600">(optional, share it separately from the link)</span>
+                    </label>
+                    <input
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                      placeholder="Leave empty to let anyone with the link read the note..."
+                      className="w-full px-4 py-3 bg-black/50 border border-zinc-700 rounded-lg text-white placeholder-gray-600 focus:outline-none focus:border-zinc-500 focus:ring-1 focus:ring-zinc-500 text-sm transition"
+                    />
+                    <p className="text-xs text-gray-500 mt-2">
+                      No wallet needed to read. The key travels in the link itself and never reaches our servers.
+                    </p>
+                  </div>
+                )}
+
                 {/* Message */}
                 <div className="mb-5">
                   <label className="block text-xs font-medium text-gray-400 mb-2">
@@ -330,6 +614,40 @@ export default function Home() {
                   />
                 </div>
 
+                {/* Attachments */}
+                <div className="mb-5">
+                  <label className="block text-xs font-medium text-gray-400 mb-2">
+                    Attachments <span className="text-gray-600">(up to {MAX_ATTACHMENTS}, encrypted in your browser)</span>
+                  </label>
+                  {files.length > 0 && (
+                    <div className="mb-2 space-y-1">
+                      {files.map((file, index) => (
+                        <div key={index} className="flex items-center justify-between gap-3 px-3 py-2 bg-black/50 border border-zinc-800 rounded-lg">
+                          <p className="text-xs text-gray-300 truncate">{file.name}</p>
+                          <button
+                            onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                            className="flex-shrink-0 text-xs text-gray-500 hover:text-gray-300 transition"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {files.length < MAX_ATTACHMENTS && (
+                    <input
+                      type="file"
+                      multiple
+                      onChange={(e) => {
+                        const selected = Array.from(e.target.files ?? []);
+                        setFiles([...files, ...selected].slice(0, MAX_ATTACHMENTS));
+                        e.target.value = '';
+                      }}
+                      className="w-full text-xs text-gray-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:bg-zinc-800 file:text-white hover:file:bg-zinc-700 file:transition"
+                    />
+                  )}
+                </div>
+
                 {/* Self-Destruct Options */}
                 <div className="mb-5 p-4 bg-black/30 border border-zinc-800 rounded-lg">
                   <div className="flex items-center justify-between mb-3">
@@ -364,11 +682,156 @@ export default function Home() {
                       />
                       <p className="text-xs text-gray-500 mt-2">
                         {maxReads ? `Note will self-destruct after ${maxReads} read(s)` : 'Note will self-destruct after being decrypted once'}
+                        {sendMode === 'wallet' && recipientAddress.includes(',') && ' per recipient'}
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Sender Signature */}
+                {connected && (
+                  <div className="mb-5 p-4 bg-black/30 border border-zinc-800 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <label className="text-xs font-medium text-gray-400">Sign as my wallet</label>
+                      <button
+                        onClick={() => {
+                          setSignAsSender(!signAsSender);
+                          // A dead man's switch is always signed
+                          if (signAsSender) setDeadManSwitch(false);
+                        }}
+                        className={`relative w-11 h-6 rounded-full transition ${
+                          signAsSender ? 'bg-purple-500' : 'bg-zinc-700'
+                        }`}
+                      >
+                        <div
+                          className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition transform ${
+                            signAsSender ? 'translate-x-5' : ''
+                          }`}
+                        />
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {signAsSender
+                        ? 'The recipient will see this note as verified from your wallet. Only they can see who sent it, unless their inbound policy has the server check senders.'
+                        : 'Note will be sent anonymously'}
+                    </p>
+                  </div>
+                )}
+
+                {/* Scheduled Delivery */}
+                <div className="mb-5 p-4 bg-black/30 border border-zinc-800 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <label className="text-xs font-medium text-gray-400">Deliver later</label>
+                    <button
+                      onClick={() => {
+                        setDeliverLater(!deliverLater);
+                        setDeadManSwitch(false);
+                      }}
+                      className={`relative w-11 h-6 rounded-full transition ${
+                        deliverLater ? 'bg-purple-500' : 'bg-zinc-700'
+                      }`}
+                    >
+                      <div
+                        className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition transform ${
+                          deliverLater ? 'translate-x-5' : ''
+                        }`}
+                      />
+                    </button>
+                  </div>
+
+                  {deliverLater && (
+                    <div className="mt-3">
+                      <input
+                        type="datetime-local"
+                        value={unlockTime}
+                        onChange={(e) => setUnlockTime(e.target.value)}
+                        className="w-full px-3 py-2 bg-black/50 border border-zinc-700 rounded-md text-white text-sm focus:outline-none focus:border-zinc-500 [color-scheme:dark]"
+                      />
+                      <p className="text-xs text-gray-500 mt-2">
+                        The note cannot be opened before this time. Until then the recipient only sees a countdown.
+                        Its expiry counts from this time, and must end within the server&apos;s retention period (30 days by default).
                       </p>
                     </div>
                   )}
                 </div>
 
+                {/* Dead Man's Switch */}
+                {connected && (
+                  <div className="mb-5 p-4 bg-black/30 border border-zinc-800 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <label className="text-xs font-medium text-gray-400">Dead man&apos;s switch</label>
+                      <button
+                        onClick={() => {
+                          setDeadManSwitch(!deadManSwitch);
+                          if (!deadManSwitch) {
+                            setSignAsSender(true);
+                            setDeliverLater(false);
+                          }
+                        }}
+                        className={`relative w-11 h-6 rounded-full transition ${
+                          deadManSwitch ? 'bg-purple-500' : 'bg-zinc-700'
+                        }`}
+                      >
+                        <div
+                          className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition transform ${
+                            deadManSwitch ? 'translate-x-5' : ''
+                          }`}
+                        />
+                      </button>
+                    </div>
+
+                    {deadManSwitch && (
+                      <div className="mt-3">
+                        <label className="block text-xs font-medium text-gray-400 mb-2">
+                          Check in at least every
+                        </label>
+                        <div className="grid grid-cols-3 gap-2">
+                          {CHECK_IN_OPTIONS.map((option) => (
+                            <button
+                              key={option.value}
+                              onClick={() => setCheckInInterval(option.value)}
+                              className={`py-2 rounded-md text-xs font-medium border transition ${
+                                checkInInterval === option.value
+                                  ? 'bg-purple-500/20 border-purple-500/50 text-purple-300'
+                                  : 'bg-black/50 border-zinc-700 text-gray-400 hover:border-zinc-500'
+                              }`}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">
+                          The note stays sealed while you check in with your wallet on the{' '}
+                          <a href="/switches" className="text-gray-300 hover:text-white underline">Switches</a> page.
+                          Miss a check-in and it is released to the recipient.
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Expiry Options */}
+                <div className="mb-5 p-4 bg-black/30 border border-zinc-800 rounded-lg">
+                  <label className="block text-xs font-medium text-gray-400 mb-3">
+                    {deliverLater || deadManSwitch ? 'Expires if unread this long after unlocking' : 'Expires if unread after'}
+                  </label>
+                  <div className="grid grid-cols-4 gap-2">
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => setExpiresIn(option.value)}
+                        className={`py-2 rounded-md text-xs font-medium border transition ${
+                          expiresIn === option.value
+                            ? 'bg-purple-500/20 border-purple-500/50 text-purple-300'
+                            : 'bg-black/50 border-zinc-700 text-gray-400 hover:border-zinc-500'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
                 {/* Error */}
                 {error && (
                   <div className="mb-5 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-400 text-xs">
@@ -376,13 +839,30 @@ export default function Home() {
                   </div>
                 )}
 
+                {/* Proof-of-Work Progress */}
+                {powProgress !== null && (
+                  <div className="mb-5">
+                    <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-purple-500 transition-all"
+                        style={{ width: `${Math.round(powProgress * 100)}%` }}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      Computing an anti-spam stamp in your browser. Proof of work is required to send this note.
+                    </p>
+                  </div>
+                )}
+
                 {/* Create Button */}
                 <button
                   onClick={handleCreateNote}
                   disabled={loading}
                   className="w-full py-3 bg-white text-black font-medium rounded-lg hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed text-sm"
                 >
-                  {loading ? 'Creating encrypted note...' : 'Create Encrypted Note'}
+                  {powProgress !== null
+                    ? `Computing anti-spam stamp... ${Math.round(powProgress * 100)}%`
+                    : loading ? 'Creating encrypted note...' : 'Create Encrypted Note'}
                 </button>
               </>
             ) : (
@@ -395,13 +875,24 @@ export default function Home() {
                     </svg>
                     <h2 className="text-lg font-bold text-white">Note Created!</h2>
                   </div>
-                  <p className="text-gray-400 text-xs mb-4">Share this link with the recipient</p>
+                  <p className="text-gray-400 text-xs mb-4">
+                    {noteUrl.includes('#')
+                      ? 'Anyone with this link (and the passphrase, if you set one) can read the note - share it privately'
+                      : 'Share this link with the recipient, or they can find it in their inbox'}
+                  </p>
 
                   {/* URL Display */}
                   <div className="mb-5 p-4 bg-black/50 border border-zinc-700 rounded-lg">
                     <p className="text-xs text-gray-300 break-all font-mono">{noteUrl}</p>
                   </div>
 
+                  {noteExpiresAt !== null && (
+                    <p className="text-gray-500 text-xs -mt-3 mb-5">
+                      {deadManSwitch ? 'If released at its first check-in deadline, it expires' : 'Expires'}{' '}
+                      {new Date(noteExpiresAt).toLocaleString()}
+                    </p>
+                  )}
+
                   {/* Action Buttons */}
                   <div className="flex gap-3">
                     <button
@@ -0,0 +1,258 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
+import { fetchSwitches, checkInSwitch, cancelSwitch } from '@/lib/api';
+import { formatTimeRemaining } from '@/lib/format';
+
+interface Switch {
+  id: string;
+  mode: 'direct' | 'multi' | 'link';
+  // null for multi-recipient and link notes
+  recipientAddress: string | null;
+  createdAt: number;
+  checkInInterval: number;
+  // Released to its recipients unless checked in on before this
+  unlockAt: number;
+  expiresAt: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function describeInterval(intervalMs: number): string {
+  const days = Math.round(intervalMs / DAY_MS);
+  return days === 1 ? 'every day' : `every ${days} days`;
+}
+
+export default function SwitchesPage() {
+  const { publicKey, signMessage } = useWallet();
+  const [switches, setSwitches] = useState<Switch[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [busyId, setBusyId] = useState('');
+
+  // Forget everything when the wallet changes
+  useEffect(() => {
+    setSwitches(null);
+    setError('');
+  }, [publicKey]);
+
+  const loadSwitches = async () => {
+    if (!publicKey || !signMessage) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetchSwitches(signMessage, publicKey.toBase58());
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to load switches');
+      }
+
+      const data = await response.json();
+      setSwitches(data.switches);
+    } catch (err) {
+      console.error('Switches error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load switches');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCheckIn = async (item: Switch) => {
+    if (!publicKey || !signMessage) return;
+
+    setBusyId(item.id);
+    setError('');
+
+    try {
+      const response = await checkInSwitch(signMessage, publicKey.toBase58(), item.id);
+      const data = await response.json();
+
+      if (!response.ok) {
+        // Released (or cancelled elsewhere) - it is no longer active
+        if (response.status === 404) {
+          setSwitches((current) => current?.filter((s) => s.id !== item.id) ?? null);
+        }
+        throw new Error(data.error || 'Failed to check in');
+      }
+
+      setSwitches((current) =>
+        current?.map((s) => (s.id === item.id ? { ...s, unlockAt: data.unlockAt, expiresAt: data.expiresAt } : s)) ?? null
+      );
+    } catch (err) {
+      console.error('Check-in error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to check in');
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  const handleCancel = async (item: Switch) => {
+    if (!publicKey || !signMessage) return;
+    if (!confirm('Cancel this switch? The note will be deleted and never delivered.')) return;
+
+    setBusyId(item.id);
+    setError('');
+
+    try {
+      const response = await cancelSwitch(signMessage, publicKey.toBase58(), item.id);
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to cancel switch');
+      }
+
+      setSwitches((current) => current?.filter((s) => s.id !== item.id) ?? null);
+    } catch (err) {
+      console.error('Cancel error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cancel switch');
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  return (
+    <>
+      {/* Animated Grid Background */}
+      <div className="fixed inset-0 w-full h-full -z-10 overflow-hidden pointer-events-none">
+        <div className="absolute inset-0 w-[200%] h-[200%] animate-[gridMove_30s_linear_infinite]"
+          style={{
+            backgroundImage: `
+              linear-gradient(rgba(255,255,255,0.02) 1px, transparent 1px),
+              linear-gradient(90deg, rgba(255,255,255,0.02) 1px, transparent 1px)
+            `,
+            backgroundSize: '60px 60px'
+          }}
+        />
+      </div>
+
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="w-full max-w-2xl py-12">
+        {/* Header */}
+        <div className="text-center mb-6">
+          <Link href="/" className="inline-block">
+            <div className="flex items-center justify-center gap-4 mb-3">
+              <img
+                src="/darknote.jpg"
+                alt="DarkNote"
+                className="w-12 h-12 rounded-lg border border-zinc-700"
+              />
+              <h1 className="text-5xl font-black tracking-wider" style={{ fontFamily: 'var(--font-orbitron)' }}>
+                <span className="bg-gradient-to-r from-zinc-600 to-zinc-400 bg-clip-text text-transparent">
+                  DARK
+                </span>
+                <span className="bg-gradient-to-r from-purple-400 to-purple-600 bg-clip-text text-transparent">
+                  NOTE
+                </span>
+              </h1>
+            </div>
+          </Link>
+          <p className="text-gray-400 text-sm">
+            Dead Man&apos;s Switches
+          </p>
+          <p className="text-gray-500 text-xs mt-2">
+            Notes released to their recipients unless you keep checking in
+          </p>
+        </div>
+
+        {/* Main Card */}
+        <div className="bg-zinc-900/50 backdrop-blur-xl border border-zinc-800 rounded-xl p-6 shadow-2xl">
+          {/* Wallet Connect */}
+          <div className="mb-5 flex justify-center">
+            <WalletMultiButton />
+          </div>
+
+          {/* Error */}
+          {error && (
+            <div className="mb-5 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-400 text-xs">
+              {error}
+            </div>
+          )}
+
+          {publicKey && switches === null && (
+            <>
+              <button
+                onClick={loadSwitches}
+                disabled={loading}
+                className="w-full py-3 bg-white text-black font-medium rounded-lg hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              >
+                {loading ? 'Loading switches...' : 'Sign In & Load Switches'}
+              </button>
+              <div className="mt-4 p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg">
+                <p className="text-blue-300 text-xs">
+                  Your wallet signs a one-time challenge to prove it owns this address. No transaction is sent.
+                </p>
+              </div>
+            </>
+          )}
+
+          {switches !== null && switches.length === 0 && (
+            <p className="text-center text-gray-400 text-sm py-6">No active switches for this wallet.</p>
+          )}
+
+          {switches !== null && switches.length > 0 && (
+            <div className="space-y-3">
+              {switches.map((item) => (
+                <div key={item.id} className="p-4 bg-black/50 border border-zinc-700 rounded-lg">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-xs text-gray-300 font-mono break-all">
+                        {item.mode === 'link'
+                          ? 'Anyone with the link'
+                          : item.recipientAddress ?? 'Multiple recipients'}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Created {new Date(item.createdAt).toLocaleString()} • Check in {describeInterval(item.checkInInterval)}
+                      </p>
+                      <p className="text-xs text-yellow-400 mt-1">
+                        Released {formatTimeRemaining(item.unlockAt)} unless you check in
+                      </p>
+                    </div>
+                    <div className="flex flex-shrink-0 gap-2">
+                      <button
+                        onClick={() => handleCheckIn(item)}
+                        disabled={busyId !== ''}
+                        className="px-4 py-2 bg-white text-black text-xs font-medium rounded-md hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {busyId === item.id ? 'Signing...' : 'Check In'}
+                      </button>
+                      <button
+                        onClick={() => handleCancel(item)}
+                        disabled={busyId !== ''}
+                        className="px-4 py-2 bg-zinc-800 text-gray-300 text-xs font-medium rounded-md hover:bg-zinc-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="text-center mt-6 text-gray-500 text-xs">
+          <Link href="/" className="hover:text-gray-400 transition">← Back to DarkNote</Link>
+        </div>
+      </div>
+      {/* Version */}
+      <div className="fixed bottom-4 right-4 group">
+        <div className="bg-zinc-900/50 backdrop-blur-xl border border-zinc-800 rounded-lg px-3 py-2 text-xs text-gray-300">
+          {process.env.NEXT_PUBLIC_GIT_SHA || 'dev'}
+        </div>
+        <div className="absolute bottom-full right-0 mb-2 hidden group-hover:block">
+          <div className="bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-xs text-gray-300 whitespace-nowrap">
+            Verifies deployed code matches GitHub commit
+          </div>
+        </div>
+      </div>
+    </div>
+    </>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { FC, useState } from 'react';
+import { AttachmentKey } from '@/lib/crypto';
+import { downloadAttachment } from '@/lib/api';
+
+interface AttachmentListProps {
+  attachments: AttachmentKey[];
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Lists a decrypted note's attachments; each one is downloaded and
+ * decrypted in the browser, then saved under its original name
+ */
+export const AttachmentList: FC<AttachmentListProps> = ({ attachments }) => {
+  const [downloadingId, setDownloadingId] = useState('');
+  const [error, setError] = useState('');
+
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  const handleDownload = async (attachment: AttachmentKey) => {
+    setDownloadingId(attachment.id);
+    setError('');
+
+    try {
+      const blob = await downloadAttachment(attachment);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Attachment error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to download attachment');
+    } finally {
+      setDownloadingId('');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {attachments.map((attachment) => (
+        <div
+          key={attachment.id}
+          className="flex items-center justify-between gap-3 p-3 bg-black/50 border border-zinc-800 rounded-lg"
+        >
+          <div className="min-w-0">
+            <p className="text-xs text-gray-300 truncate">{attachment.name}</p>
+            <p className="text-xs text-gray-500">{formatSize(attachment.size)}</p>
+          </div>
+          <button
+            onClick={() => handleDownload(attachment)}
+            disabled={downloadingId !== ''}
+            className="flex-shrink-0 px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-xs text-white rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {downloadingId === attachment.id ? 'Decrypting...' : 'Download'}
+          </button>
+        </div>
+      ))}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+'use client';
+
+import { FC } from 'react';
+import { DecryptedNote } from '@/lib/crypto';
+
+interface SenderBadgeProps {
+  sender: DecryptedNote['sender'];
+}
+
+/**
+ * Shows who sent a decrypted note: a verified wallet, a failed
+ * signature check, or anonymous
+ */
+export const SenderBadge: FC<SenderBadgeProps> = ({ sender }) => {
+  if (!sender) {
+    return (
+      <div className="p-3 bg-zinc-500/10 border border-zinc-500/30 rounded-lg">
+        <p className="text-xs text-gray-400">Anonymous • The sender did not sign this note</p>
+      </div>
+    );
+  }
+
+  if (!sender.verified) {
+    return (
+      <div className="p-3 bg-red-500/10 border border-red-500/50 rounded-lg">
+        <p className="text-xs text-red-400 mb-1">Signature invalid • Do not trust the claimed sender</p>
+        <p className="text-xs text-red-300/80 font-mono break-all">{sender.address}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-green-500/10 border border-green-500/30 rounded-lg">
+      <p className="text-xs text-green-400 mb-1">Verified from</p>
+      <p className="text-xs text-green-300 font-mono break-all">{sender.address}</p>
+    </div>
+  );
+};
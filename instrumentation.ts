@@ -0,0 +1,15 @@
+export async function register() {
+  // The sweeper needs better-sqlite3, so only start it on the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Migrate (or refuse an incompatible database) before serving requests.
+    // In memory mode nothing uses darknote.db, so it is never created
+    const { config } = await import('@/lib/config');
+    if (config.storage === 'sqlite' || config.rateLimitStore === 'sqlite') {
+      const { openDb } = await import('@/lib/db');
+      openDb();
+    }
+
+    const { startSweeper } = await import('@/lib/sweeper');
+    startSweeper();
+  }
+}
@@ -0,0 +1,785 @@
+import { encodeBase64, decodeUTF8 } from 'tweetnacl-util';
+import {
+  AUTH_HEADERS,
+  AttachmentKey,
+  AuthPurpose,
+  CURRENT_DERIVATION_SCHEME,
+  DerivationScheme,
+  DecryptedNote,
+  EncryptOptions,
+  IDEMPOTENCY_KEY_HEADER,
+  LINK_PROOF_HEADER,
+  RecipientKey,
+  SenderSigner,
+  UPLOAD_TOKEN_HEADER,
+  createAuthMessage,
+  decryptAttachmentChunk,
+  decryptMessage,
+  decryptMultiRecipientMessage,
+  deriveEncryptionKeyFromSignature,
+  encryptAttachment,
+  encryptMessage,
+  encryptMessageForRecipients,
+  encryptMessageWithLinkKey,
+  generateIdempotencyKey,
+  hashNoteCiphertext,
+} from '@/lib/crypto';
+import { PowStamp } from '@/lib/pow';
+import { InboundPolicy } from '@/lib/policy';
+
+/**
+ * Client-side helpers for calling DarkNote API routes
+ */
+
+type SignMessage = (message: Uint8Array) => Promise<Uint8Array>;
+
+/**
+ * Response of POST /api/notes/[id]/open
+ */
+export interface OpenedNote {
+  id: string;
+  mode: 'direct' | 'multi' | 'link';
+  ciphertext: string;
+  nonce: string;
+  ephemeralPublicKey: string | null;
+  wrappedKey?: string;
+  wrapNonce?: string;
+  keyVersion: number;
+  selfDestruct: boolean;
+  maxReads: number | null;
+  currentReads: number;
+  burned: boolean;
+}
+
+/**
+ * Sign an API request with the connected wallet
+ *
+ * Fetches a single-use challenge nonce, asks the wallet to sign it
+ * together with the request purpose and fields, and returns the
+ * headers the server's verifyWalletAuth() expects.
+ */
+export async function getAuthHeaders(
+  signMessage: SignMessage,
+  walletAddress: string,
+  purpose: AuthPurpose,
+  fields: Record<string, string> = {}
+): Promise<Record<string, string>> {
+  const response = await fetch(`/api/auth/challenge?address=${encodeURIComponent(walletAddress)}`);
+  if (!response.ok) {
+    throw new Error('Failed to get auth challenge');
+  }
+
+  const { nonce } = await response.json();
+  const message = createAuthMessage(purpose, walletAddress, nonce, fields);
+  const signature = await signMessage(decodeUTF8(message));
+
+  return {
+    [AUTH_HEADERS.wallet]: walletAddress,
+    [AUTH_HEADERS.nonce]: nonce,
+    [AUTH_HEADERS.signature]: encodeBase64(signature),
+  };
+}
+
+/**
+ * Register an encryption public key for the connected wallet
+ *
+ * The wallet signs a challenge bound to the key, its version and the
+ * derivation scheme that produced it, so the server can verify ownership
+ * before storing it. Registering the next version rotates the key.
+ */
+export async function registerEncryptionKey(
+  signMessage: SignMessage,
+  walletAddress: string,
+  encryptionPublicKey: string,
+  version: number = 1,
+  scheme: DerivationScheme = CURRENT_DERIVATION_SCHEME
+): Promise<Response> {
+  const authHeaders = await getAuthHeaders(signMessage, walletAddress, 'register-key', {
+    'Encryption key': encryptionPublicKey,
+    'Key version': String(version),
+    'Derivation scheme': String(scheme),
+  });
+
+  return fetch('/api/keys/register', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders,
+    },
+    body: JSON.stringify({
+      walletAddress,
+      encryptionPublicKey,
+      version,
+      scheme,
+    }),
+  });
+}
+
+/**
+ * Burn a note as its recipient
+ */
+export async function deleteNote(
+  signMessage: SignMessage,
+  walletAddress: string,
+  noteId: string
+): Promise<Response> {
+  const authHeaders = await getAuthHeaders(signMessage, walletAddress, 'delete-note', {
+    Note: noteId,
+  });
+
+  return fetch(`/api/notes/${noteId}`, {
+    method: 'DELETE',
+    headers: authHeaders,
+  });
+}
+
+/**
+ * Open a note as its recipient
+ * Consumes one read; the response carries the ciphertext.
+ */
+export async function openNote(
+  signMessage: SignMessage,
+  walletAddress: string,
+  noteId: string
+): Promise<Response> {
+  const authHeaders = await getAuthHeaders(signMessage, walletAddress, 'open-note', {
+    Note: noteId,
+  });
+
+  return fetch(`/api/notes/${noteId}/open`, {
+    method: 'POST',
+    headers: authHeaders,
+  });
+}
+
+/**
+ * Open a link note with the access proof from deriveLinkAccess()
+ * No wallet involved; consumes one read like openNote().
+ */
+export async function openLinkNote(noteId: string, accessProof: string): Promise<Response> {
+  return fetch(`/api/notes/${noteId}/open`, {
+    method: 'POST',
+    headers: {
+      [LINK_PROOF_HEADER]: accessProof,
+    },
+  });
+}
+
+/**
+ * List the connected wallet's active dead man's switches
+ */
+export async function fetchSwitches(
+  signMessage: SignMessage,
+  walletAddress: string
+): Promise<Response> {
+  const authHeaders = await getAuthHeaders(signMessage, walletAddress, 'list-switches');
+
+  return fetch('/api/switches', {
+    headers: authHeaders,
+  });
+}
+
+/**
+ * Check in on a dead man's switch as its sender, keeping it sealed for
+ * another check-in interval
+ */
+export async function checkInSwitch(
+  signMessage: SignMessage,
+  walletAddress: string,
+  noteId: string
+): Promise<Response> {
+  const authHeaders = await getAuthHeaders(signMessage, walletAddress, 'check-in-switch', {
+    Note: noteId,
+  });
+
+  return fetch(`/api/notes/${noteId}/check-in`, {
+    method: 'POST',
+    headers: authHeaders,
+  });
+}
+
+/**
+ * Cancel a dead man's switch as its sender, deleting the note
+ */
+export async function cancelSwitch(
+  signMessage: SignMessage,
+  walletAddress: string,
+  noteId: string
+): Promise<Response> {
+  const authHeaders = await getAuthHeaders(signMessage, walletAddress, 'cancel-switch', {
+    Note: noteId,
+  });
+
+  return fetch(`/api/notes/${noteId}/cancel`, {
+    method: 'POST',
+    headers: authHeaders,
+  });
+}
+
+/**
+ * List pending notes addressed to the connected wallet
+ */
+export async function fetchInbox(
+  signMessage: SignMessage,
+  walletAddress: string
+): Promise<Response> {
+  const authHeaders = await getAuthHeaders(signMessage, walletAddress, 'list-inbox');
+
+  return fetch('/api/inbox', {
+    headers: authHeaders,
+  });
+}
+
+/**
+ * Result of looking up a wallet's current encryption key
+ * A revoked key must not be encrypted to until its owner registers a
+ * new version.
+ */
+export type EncryptionKeyLookup =
+  | {
+      status: 'registered';
+      key: RecipientKey;
+      scheme: DerivationScheme;
+      // Proof-of-work stamp difficulty notes to this wallet need
+      powDifficulty: number;
+      inboundPolicy: InboundPolicy;
+      // Whether the sender passed to fetchEncryptionKey() may send to
+      // this wallet (null when no sender was given)
+      senderAccepted: boolean | null;
+    }
+  | {
+      status: 'revoked';
+      version: number;
+      scheme: DerivationScheme;
+      revokedAt: number;
+      revocationReason: string | null;
+    }
+  | { status: 'missing' };
+
+// One GET /api/keys/[address], signed by the sender when one is given
+async function requestEncryptionKey(
+  walletAddress: string,
+  senderAddress?: string,
+  authHeaders: Record<string, string> = {}
+): Promise<EncryptionKeyLookup> {
+  const query = senderAddress ? `?sender=${senderAddress}` : '';
+  const response = await fetch(`/api/keys/${walletAddress}${query}`, { headers: authHeaders });
+
+  if (response.status === 404) {
+    return { status: 'missing' };
+  }
+
+  if (response.status === 410) {
+    const data = await response.json();
+    return {
+      status: 'revoked',
+      version: data.version,
+      scheme: data.scheme,
+      revokedAt: data.revokedAt,
+      revocationReason: data.revocationReason,
+    };
+  }
+
+  if (!response.ok) {
+    throw new Error('Failed to look up recipient encryption key');
+  }
+
+  const data = await response.json();
+  return {
+    status: 'registered',
+    key: {
+      address: walletAddress,
+      publicKey: data.encryptionPublicKey,
+      version: data.version,
+    },
+    scheme: data.scheme,
+    powDifficulty: data.powDifficulty ?? 0,
+    inboundPolicy: data.inboundPolicy ?? 'anyone',
+    senderAccepted: data.senderAccepted ?? null,
+  };
+}
+
+/**
+ * Look up the current registered encryption public key for a wallet
+ * With a sender, also asks whether that sender passes the wallet's
+ * inbound policy. Only the sender may ask, so for a wallet with an
+ * allow-list or block-list this costs the sender a signature.
+ */
+export async function fetchEncryptionKey(
+  walletAddress: string,
+  sender?: SenderSigner
+): Promise<EncryptionKeyLookup> {
+  const lookup = await requestEncryptionKey(walletAddress);
+  if (!sender || lookup.status !== 'registered') return lookup;
+
+  // Any identified sender passes the other policies
+  if (lookup.inboundPolicy !== 'allow-list' && lookup.inboundPolicy !== 'block-list') {
+    return { ...lookup, senderAccepted: true };
+  }
+
+  const authHeaders = await getAuthHeaders(sender.signMessage, sender.address, 'check-inbound-policy', {
+    Recipient: walletAddress,
+  });
+  return requestEncryptionKey(walletAddress, sender.address, authHeaders);
+}
+
+/**
+ * Current key version of a wallet, revoked or not (1 if none is registered)
+ */
+export async function fetchCurrentKeyVersion(walletAddress: string): Promise<number> {
+  const lookup = await fetchEncryptionKey(walletAddress);
+  if (lookup.status === 'registered') return lookup.key.version;
+  if (lookup.status === 'revoked') return lookup.version;
+  return 1;
+}
+
+/**
+ * Derive the connected wallet's secret key for one of its key versions
+ * Uses the derivation scheme that version was registered with.
+ */
+export async function deriveSecretKeyForVersion(
+  signMessage: SignMessage,
+  walletAddress: string,
+  version: number
+): Promise<string> {
+  const response = await fetch(`/api/keys/${walletAddress}?version=${version}`);
+
+  if (!response.ok) {
+    throw new Error(`Encryption key version ${version} is not registered for this wallet`);
+  }
+
+  const { scheme } = await response.json();
+  const { secretKey } = await deriveEncryptionKeyFromSignature(signMessage, walletAddress, version, scheme);
+  return secretKey;
+}
+
+/**
+ * Revoke one of the connected wallet's encryption key versions
+ */
+export async function revokeEncryptionKey(
+  signMessage: SignMessage,
+  walletAddress: string,
+  version: number,
+  reason: string
+): Promise<Response> {
+  const authHeaders = await getAuthHeaders(signMessage, walletAddress, 'revoke-key', {
+    'Key version': String(version),
+    Reason: reason,
+  });
+
+  return fetch('/api/keys/revoke', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders,
+    },
+    body: JSON.stringify({
+      walletAddress,
+      version,
+      reason,
+    }),
+  });
+}
+
+/**
+ * Set the proof-of-work difficulty senders need to reach this wallet
+ */
+export async function setPowDifficulty(
+  signMessage: SignMessage,
+  walletAddress: string,
+  difficulty: number
+): Promise<Response> {
+  const authHeaders = await getAuthHeaders(signMessage, walletAddress, 'set-pow-difficulty', {
+    Difficulty: String(difficulty),
+  });
+
+  return fetch('/api/keys/pow', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders,
+    },
+    body: JSON.stringify({
+      walletAddress,
+      difficulty,
+    }),
+  });
+}
+
+/**
+ * Read the connected wallet's inbound policy and sender list
+ */
+export async function fetchInboundPolicy(
+  signMessage: SignMessage,
+  walletAddress: string
+): Promise<{ inboundPolicy: InboundPolicy; senders: string[] }> {
+  const authHeaders = await getAuthHeaders(signMessage, walletAddress, 'read-inbound-policy');
+
+  const response = await fetch('/api/keys/policy', {
+    headers: authHeaders,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load inbound policy');
+  }
+
+  return { inboundPolicy: data.inboundPolicy, senders: data.senders };
+}
+
+/**
+ * Set who may send notes to the connected wallet
+ * `senders` is the allow-list or block-list, depending on the policy.
+ */
+export async function saveInboundPolicy(
+  signMessage: SignMessage,
+  walletAddress: string,
+  inboundPolicy: InboundPolicy,
+  senders: string[]
+): Promise<Response> {
+  // Signed in the same canonical form the server checks
+  const senderAddresses = Array.from(new Set(senders)).sort();
+
+  const authHeaders = await getAuthHeaders(signMessage, walletAddress, 'set-inbound-policy', {
+    Policy: inboundPolicy,
+    Senders: senderAddresses.join(','),
+  });
+
+  return fetch('/api/keys/policy', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders,
+    },
+    body: JSON.stringify({
+      walletAddress,
+      inboundPolicy,
+      senders: senderAddresses,
+    }),
+  });
+}
+
+/**
+ * Encrypt a file and upload its chunks
+ * Returns the attachment key for the note envelope and the upload token
+ * that lets the note claim it.
+ */
+export async function uploadAttachment(
+  file: File
+): Promise<{ attachment: AttachmentKey; uploadToken: string }> {
+  const encrypted = encryptAttachment(new Uint8Array(await file.arrayBuffer()));
+
+  const response = await fetch('/api/attachments', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ chunkCount: encrypted.chunks.length }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || `Failed to upload ${file.name}`);
+  }
+
+  const { id, uploadToken } = await response.json();
+
+  for (const [index, chunk] of encrypted.chunks.entries()) {
+    const chunkResponse = await fetch(`/api/attachments/${id}/chunks/${index}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        [UPLOAD_TOKEN_HEADER]: uploadToken,
+      },
+      body: new Blob([new Uint8Array(chunk)]),
+    });
+
+    if (!chunkResponse.ok) {
+      throw new Error(`Failed to upload ${file.name}`);
+    }
+  }
+
+  return {
+    attachment: {
+      id,
+      name: file.name,
+      type: file.type || 'application/octet-stream',
+      size: file.size,
+      chunkCount: encrypted.chunks.length,
+      key: encrypted.key,
+      nonce: encrypted.nonce,
+    },
+    uploadToken,
+  };
+}
+
+/**
+ * Download and decrypt an attachment
+ * Fails if any chunk is missing or has been tampered with.
+ */
+export async function downloadAttachment(attachment: AttachmentKey): Promise<Blob> {
+  const parts: BlobPart[] = [];
+
+  for (let index = 0; index < attachment.chunkCount; index++) {
+    const response = await fetch(`/api/attachments/${attachment.id}/chunks/${index}`);
+
+    if (!response.ok) {
+      throw new Error(
+        response.status === 404
+          ? `${attachment.name} is no longer available`
+          : `Failed to download ${attachment.name}`
+      );
+    }
+
+    const chunk = new Uint8Array(await response.arrayBuffer());
+    parts.push(new Uint8Array(decryptAttachmentChunk(chunk, attachment, index)));
+  }
+
+  return new Blob(parts, { type: attachment.type });
+}
+
+export interface CreateNoteOptions extends Omit<EncryptOptions, 'attachments'> {
+  selfDestruct?: boolean;
+  maxReads?: number | null;
+  // Scheduled delivery: the note cannot be opened before this time (ms
+  // since epoch), and expiresIn counts from it. Both must end within the
+  // server's maximum retention, or the note is rejected
+  unlockAt?: number | null;
+  // Dead man's switch: the note stays sealed while the sender checks in
+  // at least this often (ms). Needs sender and identifySender.
+  checkInInterval?: number | null;
+  expiresIn?: number;
+  files?: File[];
+  // Highest proof-of-work difficulty among the recipients' key lookups
+  powDifficulty?: number;
+  // Stamp solving progress, from 0 to 1
+  onPowProgress?: (progress: number) => void;
+  // Sign the upload with the sender's wallet so the server can apply
+  // recipients' inbound policies (reveals the sender to the server)
+  identifySender?: boolean;
+}
+
+/**
+ * Solve a proof-of-work stamp in a Web Worker
+ *
+ * Fetches a challenge and solves it at the highest of the server minimum
+ * and `difficulty`. Progress is an estimate: the expected number of
+ * attempts is 2^difficulty, but any attempt may succeed.
+ * Returns undefined when no stamp is needed.
+ */
+export async function solveProofOfWork(
+  difficulty: number = 0,
+  onProgress?: (progress: number) => void
+): Promise<PowStamp | undefined> {
+  const response = await fetch('/api/pow/challenge');
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch proof-of-work challenge');
+  }
+
+  const data = await response.json();
+  const required = Math.max(difficulty, data.difficulty);
+  if (required === 0) return undefined;
+
+  const expectedAttempts = 2 ** required;
+  const worker = new Worker(new URL('./pow.worker.ts', import.meta.url));
+
+  try {
+    return await new Promise<PowStamp>((resolve, reject) => {
+      worker.onmessage = (event) => {
+        if (event.data.type === 'progress') {
+          onProgress?.(Math.min(0.99, event.data.attempts / expectedAttempts));
+        } else {
+          onProgress?.(1);
+          resolve(event.data.stamp);
+        }
+      };
+      worker.onerror = () => reject(new Error('Proof-of-work solver failed'));
+      worker.postMessage({ challenge: data.challenge, difficulty: required });
+    });
+  } finally {
+    worker.terminate();
+  }
+}
+
+// Upload files before the note that carries their keys
+async function uploadFiles(files: File[]) {
+  const uploads = [];
+  for (const file of files) {
+    uploads.push(await uploadAttachment(file));
+  }
+  return uploads;
+}
+
+// Attempts at posting a note before a network failure is reported
+const MAX_STORE_ATTEMPTS = 3;
+
+// A stored note: the ID the server assigned to it, and when the server
+// deletes it (ms since epoch)
+export interface StoredNote {
+  noteId: string;
+  expiresAt: number | null;
+}
+
+// POST an encrypted note along with its uploaded attachments
+async function storeNote(
+  payload: { ciphertext: string } & Record<string, unknown>,
+  settings: Omit<CreateNoteOptions, keyof EncryptOptions | 'files'>,
+  uploads: Awaited<ReturnType<typeof uploadFiles>>,
+  sender: EncryptOptions['sender']
+): Promise<StoredNote> {
+  const { powDifficulty, onPowProgress, identifySender, ...noteSettings } = settings;
+
+  // Solved last, so the challenge is fresh when the note is posted
+  const stamp = await solveProofOfWork(powDifficulty, onPowProgress);
+
+  const authHeaders = identifySender && sender
+    ? await getAuthHeaders(sender.signMessage, sender.address, 'send-note', {
+        'Ciphertext hash': hashNoteCiphertext(payload.ciphertext),
+      })
+    : {};
+
+  const request = {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [IDEMPOTENCY_KEY_HEADER]: generateIdempotencyKey(),
+      ...authHeaders,
+    },
+    body: JSON.stringify({
+      ...payload,
+      ...noteSettings,
+      stamp,
+      attachments: uploads.map((upload) => ({ id: upload.attachment.id, uploadToken: upload.uploadToken })),
+    }),
+  };
+
+  // The request is repeated as-is: if an attempt did reach the server,
+  // the idempotency key gets its note back instead of a duplicate
+  let response: Response;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      response = await fetch('/api/notes', request);
+      break;
+    } catch (error) {
+      if (attempt >= MAX_STORE_ATTEMPTS) throw error;
+    }
+  }
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to create note');
+  }
+
+  return { noteId: data.noteId, expiresAt: data.expiresAt };
+}
+
+/**
+ * Encrypt a message and store it
+ *
+ * One recipient makes a direct note (NaCl box). Several recipients make
+ * a multi-recipient note: one ciphertext, with the note key wrapped for
+ * each recipient's registered key.
+ * Returns the new note's ID and expiry.
+ */
+export async function createEncryptedNote(
+  message: string,
+  recipients: RecipientKey[],
+  options: CreateNoteOptions = {}
+): Promise<StoredNote> {
+  const { sender, replyTo, files = [], ...settings } = options;
+
+  // Files are uploaded first; their keys travel inside the note
+  const uploads = await uploadFiles(files);
+  const attachments = uploads.map((upload) => upload.attachment);
+
+  let payload: { ciphertext: string } & Record<string, unknown>;
+  if (recipients.length === 1) {
+    const encrypted = await encryptMessage(message, recipients[0].publicKey, recipients[0].address, {
+      sender,
+      replyTo,
+      attachments,
+    });
+    payload = {
+      mode: 'direct',
+      ...encrypted,
+      recipientAddress: recipients[0].address,
+      keyVersion: recipients[0].version,
+    };
+  } else {
+    const encrypted = await encryptMessageForRecipients(message, recipients, {
+      sender,
+      replyTo,
+      attachments,
+    });
+    payload = { mode: 'multi', ...encrypted };
+  }
+
+  return storeNote(payload, settings, uploads, sender);
+}
+
+/**
+ * Encrypt a message under a fresh link key and store it
+ *
+ * For recipients without a registered key: whoever holds the link (and
+ * the passphrase, if set) can read the note, no wallet needed.
+ * Returns the note's ID and expiry, and the URL fragment that carries
+ * the link key - the fragment is never sent to the server.
+ */
+export async function createLinkNote(
+  message: string,
+  options: CreateNoteOptions & { passphrase?: string } = {}
+): Promise<StoredNote & { fragment: string }> {
+  const { sender, replyTo, files = [], passphrase, ...settings } = options;
+
+  const uploads = await uploadFiles(files);
+  const { linkKey, ...encrypted } = await encryptMessageWithLinkKey(message, passphrase, {
+    sender,
+    replyTo,
+    attachments: uploads.map((upload) => upload.attachment),
+  });
+
+  const stored = await storeNote({ mode: 'link', ...encrypted }, settings, uploads, sender);
+
+  return {
+    ...stored,
+    fragment: passphrase ? `k=${linkKey}&p=1` : `k=${linkKey}`,
+  };
+}
+
+/**
+ * Decrypt a note returned by openNote() with the recipient's secret key
+ */
+export function decryptOpenedNote(
+  opened: OpenedNote,
+  recipientSecretKey: string,
+  recipientAddress: string
+): DecryptedNote {
+  if (!opened.ephemeralPublicKey) {
+    throw new Error('Link notes are decrypted with decryptLinkMessage()');
+  }
+
+  if (opened.mode === 'multi') {
+    if (!opened.wrappedKey || !opened.wrapNonce) {
+      throw new Error('Missing wrapped key for multi-recipient note');
+    }
+    return decryptMultiRecipientMessage(
+      opened.ciphertext,
+      opened.nonce,
+      opened.ephemeralPublicKey,
+      opened.wrappedKey,
+      opened.wrapNonce,
+      recipientSecretKey,
+      recipientAddress
+    );
+  }
+
+  return decryptMessage(
+    opened.ciphertext,
+    opened.nonce,
+    opened.ephemeralPublicKey,
+    recipientSecretKey,
+    recipientAddress
+  );
+}
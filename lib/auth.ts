@@ -0,0 +1,111 @@
+import nacl from 'tweetnacl';
+import { decodeUTF8 } from 'tweetnacl-util';
+import { NextRequest } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { AUTH_HEADERS, AuthPurpose, createAuthMessage } from '@/lib/crypto';
+import { getChallengeStore } from '@/lib/storage';
+import { AuthChallenge } from '@/lib/store';
+
+/**
+ * WALLET SIGNATURE VERIFICATION (server-side)
+ *
+ * Solana wallets sign arbitrary messages with their Ed25519 key.
+ * The base58 wallet address IS the Ed25519 public key, so we can
+ * verify a signature without any extra key material.
+ *
+ * Every signed API call goes through a server-issued challenge:
+ * 1. Client requests a nonce for its wallet (GET /api/auth/challenge)
+ * 2. Wallet signs createAuthMessage(purpose, wallet, nonce, fields)
+ * 3. Route calls verifyWalletAuth() which checks the signature and
+ *    consumes the nonce, so a recorded signature cannot be replayed
+ */
+
+// How long an issued nonce stays valid
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+export type WalletAuthResult =
+  | { ok: true; walletAddress: string }
+  | { ok: false; error: string };
+
+/**
+ * Verify an Ed25519 signature from a Solana wallet over a UTF-8 message
+ *
+ * @param walletAddress - Base58 Solana wallet address (the signer)
+ * @param message - Exact message the wallet was asked to sign
+ * @param signature - Base64 encoded 64-byte signature
+ * @returns true if the signature is valid for this wallet
+ */
+export function verifyWalletSignature(
+  walletAddress: string,
+  message: string,
+  signature: string
+): boolean {
+  try {
+    const publicKeyBytes = new PublicKey(walletAddress).toBytes();
+    const signatureBytes = Buffer.from(signature, 'base64');
+
+    if (signatureBytes.length !== nacl.sign.signatureLength) {
+      return false;
+    }
+
+    return nacl.sign.detached.verify(
+      decodeUTF8(message),
+      new Uint8Array(signatureBytes),
+      publicKeyBytes
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Issue a short-lived, single-use challenge nonce for a wallet
+ * Expired nonces are swept on every issue.
+ */
+export function issueAuthChallenge(walletAddress: string): AuthChallenge {
+  const challenges = getChallengeStore();
+  challenges.deleteExpiredAuthChallenges();
+
+  const createdAt = Date.now();
+  const nonce = Buffer.from(nacl.randomBytes(32)).toString('base64url');
+
+  return challenges.createAuthChallenge({
+    nonce,
+    walletAddress,
+    createdAt,
+    expiresAt: createdAt + CHALLENGE_TTL_MS,
+  });
+}
+
+/**
+ * Verify the wallet signature on an API request
+ *
+ * Reads the wallet, nonce and signature from the AUTH_HEADERS, checks
+ * the signature over the message for this purpose and fields, then
+ * consumes the nonce. The nonce is only consumed once the signature
+ * checks out, so a forged request cannot burn a valid challenge.
+ */
+export function verifyWalletAuth(
+  request: NextRequest,
+  purpose: AuthPurpose,
+  fields: Record<string, string> = {}
+): WalletAuthResult {
+  const walletAddress = request.headers.get(AUTH_HEADERS.wallet);
+  const nonce = request.headers.get(AUTH_HEADERS.nonce);
+  const signature = request.headers.get(AUTH_HEADERS.signature);
+
+  if (!walletAddress || !nonce || !signature) {
+    return { ok: false, error: 'Missing wallet signature' };
+  }
+
+  const message = createAuthMessage(purpose, walletAddress, nonce, fields);
+  if (!verifyWalletSignature(walletAddress, message, signature)) {
+    return { ok: false, error: 'Invalid wallet signature' };
+  }
+
+  if (!getChallengeStore().consumeAuthChallenge(nonce, walletAddress)) {
+    return { ok: false, error: 'Challenge expired or already used' };
+  }
+
+  return { ok: true, walletAddress };
+}
@@ -0,0 +1,84 @@
+/**
+ * Server configuration
+ *
+ * Read once from environment variables at startup. Every setting has a
+ * default so a plain `npm run dev` works without any configuration.
+ */
+
+import { MAX_POW_DIFFICULTY } from '@/lib/pow';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name}: expected a positive number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function integerFromEnv(name: string, fallback: number, min: number, max: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new Error(`Invalid ${name}: expected an integer from ${min} to ${max}, got "${value}"`);
+  }
+  return parsed;
+}
+
+function choiceFromEnv<T extends string>(name: string, choices: readonly T[], fallback: T): T {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+
+  if (!choices.includes(value as T)) {
+    throw new Error(`Invalid ${name}: expected one of ${choices.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+}
+
+const storage = choiceFromEnv('DARKNOTE_STORAGE', ['sqlite', 'memory'] as const, 'sqlite');
+
+export const config = {
+  // Upper bound on how long a note is kept from its creation, whatever the
+  // sender chose. Dead man's switches are kept for as long as their owner
+  // checks in, and for at most this long after they are released
+  maxRetentionMs: numberFromEnv('DARKNOTE_MAX_RETENTION_DAYS', 30) * DAY_MS,
+
+  // Expiry applied when a sender does not choose one
+  defaultExpiryMs: numberFromEnv('DARKNOTE_DEFAULT_EXPIRY_DAYS', 7) * DAY_MS,
+
+  // Largest file that can be attached to a note (before encryption)
+  maxAttachmentBytes: numberFromEnv('DARKNOTE_MAX_ATTACHMENT_MB', 25) * 1024 * 1024,
+
+  // How often the background sweeper deletes expired notes
+  sweepIntervalMs: numberFromEnv('DARKNOTE_SWEEP_INTERVAL_MINUTES', 5) * 60 * 1000,
+
+  // Proof-of-work stamp difficulty (leading zero bits) every note needs;
+  // 0 disables stamps unless a recipient asks for them
+  powDifficulty: integerFromEnv('DARKNOTE_POW_DIFFICULTY', 0, 0, MAX_POW_DIFFICULTY),
+
+  // Where notes, keys and challenges live: sqlite is darknote.db, memory
+  // is per process and lost on restart (see lib/store.ts)
+  storage,
+
+  // Reverse proxies in front of the app that append the client address to
+  // X-Forwarded-For; the client IP is the entry that many from the right.
+  // None by default: without a proxy the header may come from the client
+  // (Next.js only fills it in when the client sent none), so it is ignored
+  trustedProxies: integerFromEnv('DARKNOTE_TRUSTED_PROXIES', 0, 0, 10),
+
+  // Where rate-limit buckets live: sqlite survives restarts and is shared
+  // by every process using darknote.db, memory is per process. Follows
+  // storage by default, so memory mode never opens darknote.db
+  rateLimitStore: choiceFromEnv('DARKNOTE_RATE_LIMIT_STORE', ['sqlite', 'memory'] as const, storage),
+
+  // Whether opening darknote.db applies pending schema migrations, or
+  // only checks for them and refuses to start (see lib/migrations.ts)
+  migrations: choiceFromEnv('DARKNOTE_MIGRATIONS', ['apply', 'check'] as const, 'apply'),
+};
@@ -0,0 +1,220 @@
+import fc from 'fast-check';
+import nacl from 'tweetnacl';
+import { decodeBase64, decodeUTF8, encodeBase64, encodeUTF8 } from 'tweetnacl-util';
+import { PublicKey } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import {
+  decryptMessage,
+  encryptMessage,
+  isPaddedLength,
+  MAX_PADDED_LENGTH,
+  paddedLength,
+  SenderSigner,
+} from '@/lib/crypto';
+
+/**
+ * Length-hiding padding and plaintext envelopes (lib/crypto.ts)
+ */
+
+const RECIPIENT = 'recipient';
+
+function newRecipient() {
+  const keypair = nacl.box.keyPair();
+  return { publicKey: encodeBase64(keypair.publicKey), secretKey: encodeBase64(keypair.secretKey) };
+}
+
+function newSender(): SenderSigner {
+  const keypair = nacl.sign.keyPair();
+  return {
+    address: new PublicKey(keypair.publicKey).toBase58(),
+    signMessage: async (message) => nacl.sign.detached(message, keypair.secretKey),
+  };
+}
+
+// The envelope inside a direct note, as the recipient decrypts it
+function openEnvelope(encrypted: { ciphertext: string; nonce: string; ephemeralPublicKey: string }, secretKey: string) {
+  return nacl.box.open(
+    decodeBase64(encrypted.ciphertext),
+    decodeBase64(encrypted.nonce),
+    decodeBase64(encrypted.ephemeralPublicKey),
+    decodeBase64(secretKey)
+  )!;
+}
+
+// Seal plaintext the way an older client would have, under the same
+// nonce and ephemeral key as `encrypted`
+function reseal(
+  plaintext: Uint8Array,
+  encrypted: { nonce: string; ephemeralPublicKey: string },
+  secretKey: string
+): string {
+  return encodeBase64(
+    nacl.box(plaintext, decodeBase64(encrypted.nonce), decodeBase64(encrypted.ephemeralPublicKey), decodeBase64(secretKey))
+  );
+}
+
+function envelopeV1(envelope: object): Uint8Array {
+  const json = decodeUTF8(JSON.stringify(envelope));
+  const bytes = new Uint8Array(2 + json.length);
+  bytes.set([0x00, 0x01]);
+  bytes.set(json, 2);
+  return bytes;
+}
+
+// The v2 envelope's JSON, without its header and padding
+function envelopeV2Json(plaintext: Uint8Array) {
+  const length = new DataView(plaintext.buffer, plaintext.byteOffset + 2, 4).getUint32(0);
+  return JSON.parse(encodeUTF8(plaintext.subarray(6, 6 + length)));
+}
+
+describe('paddedLength', () => {
+  it('pads everything up to 256 bytes to 256', () => {
+    expect(paddedLength(0)).toBe(256);
+    expect(paddedLength(1)).toBe(256);
+    expect(paddedLength(256)).toBe(256);
+  });
+
+  it('rounds up to a PADMÉ bucket that is not a power of two', () => {
+    expect(paddedLength(257)).toBe(272);
+    expect(paddedLength(272)).toBe(272);
+    expect(paddedLength(273)).toBe(288);
+  });
+
+  it('keeps 64 KiB and pads past it', () => {
+    expect(paddedLength(MAX_PADDED_LENGTH)).toBe(64 * 1024);
+    expect(paddedLength(MAX_PADDED_LENGTH + 1)).toBeGreaterThan(MAX_PADDED_LENGTH);
+  });
+});
+
+describe('isPaddedLength', () => {
+  it('accepts the bucket boundaries up to 64 KiB', () => {
+    expect(isPaddedLength(256)).toBe(true);
+    expect(isPaddedLength(272)).toBe(true);
+    expect(isPaddedLength(MAX_PADDED_LENGTH)).toBe(true);
+  });
+
+  it('rejects lengths between buckets and above 64 KiB', () => {
+    expect(isPaddedLength(255)).toBe(false);
+    expect(isPaddedLength(257)).toBe(false);
+    expect(isPaddedLength(MAX_PADDED_LENGTH + 1)).toBe(false);
+    expect(isPaddedLength(paddedLength(MAX_PADDED_LENGTH + 1))).toBe(false);
+  });
+
+  it('agrees with paddedLength', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 2 * MAX_PADDED_LENGTH }), (length) => {
+        const padded = paddedLength(length);
+
+        expect(padded).toBeGreaterThanOrEqual(length);
+        expect(paddedLength(padded)).toBe(padded);
+        expect(isPaddedLength(padded)).toBe(padded <= MAX_PADDED_LENGTH);
+        expect(isPaddedLength(length)).toBe(length === padded && length <= MAX_PADDED_LENGTH);
+      })
+    );
+  });
+});
+
+describe('envelopes', () => {
+  it('round-trips a v2 envelope padded to a bucket', async () => {
+    const recipient = newRecipient();
+    const encrypted = await encryptMessage('123456', recipient.publicKey, RECIPIENT);
+    const plaintext = openEnvelope(encrypted, recipient.secretKey);
+
+    expect(Array.from(plaintext.subarray(0, 2))).toEqual([0x00, 0x02]);
+    expect(isPaddedLength(plaintext.length)).toBe(true);
+    expect(decodeBase64(encrypted.ciphertext).length).toBe(plaintext.length + nacl.box.overheadLength);
+    expect(decryptMessage(encrypted.ciphertext, encrypted.nonce, encrypted.ephemeralPublicKey, recipient.secretKey, RECIPIENT))
+      .toEqual({ text: '123456', sender: null, replyTo: null, attachments: [] });
+  });
+
+  it('hides the difference between short messages', async () => {
+    const recipient = newRecipient();
+    const short = await encryptMessage('123456', recipient.publicKey, RECIPIENT);
+    const longer = await encryptMessage('a'.repeat(200), recipient.publicKey, RECIPIENT);
+
+    expect(longer.ciphertext.length).toBe(short.ciphertext.length);
+  });
+
+  it('refuses a message that would not fit in 64 KiB', async () => {
+    const recipient = newRecipient();
+
+    await expect(encryptMessage('a'.repeat(MAX_PADDED_LENGTH), recipient.publicKey, RECIPIENT))
+      .rejects.toThrow('Message too large');
+  });
+
+  it('verifies a signed v2 envelope', async () => {
+    const recipient = newRecipient();
+    const sender = newSender();
+    const encrypted = await encryptMessage('signed', recipient.publicKey, RECIPIENT, { sender, replyTo: 'note' });
+
+    expect(decryptMessage(encrypted.ciphertext, encrypted.nonce, encrypted.ephemeralPublicKey, recipient.secretKey, RECIPIENT))
+      .toEqual({ text: 'signed', sender: { address: sender.address, verified: true }, replyTo: 'note', attachments: [] });
+  });
+
+  it('still decrypts v1 envelopes, signed or not', async () => {
+    const recipient = newRecipient();
+    const sender = newSender();
+    const encrypted = await encryptMessage('signed', recipient.publicKey, RECIPIENT, { sender });
+    const envelope = envelopeV2Json(openEnvelope(encrypted, recipient.secretKey));
+    const ciphertext = reseal(envelopeV1(envelope), encrypted, recipient.secretKey);
+
+    expect(decryptMessage(ciphertext, encrypted.nonce, encrypted.ephemeralPublicKey, recipient.secretKey, RECIPIENT))
+      .toMatchObject({ text: 'signed', sender: { address: sender.address, verified: true } });
+
+    const anonymous = reseal(envelopeV1({ text: 'anonymous' }), encrypted, recipient.secretKey);
+    expect(decryptMessage(anonymous, encrypted.nonce, encrypted.ephemeralPublicKey, recipient.secretKey, RECIPIENT))
+      .toMatchObject({ text: 'anonymous', sender: null });
+  });
+
+  it('still decrypts legacy notes without an envelope', async () => {
+    const recipient = newRecipient();
+    const encrypted = await encryptMessage('', recipient.publicKey, RECIPIENT);
+    const ciphertext = reseal(decodeUTF8('legacy'), encrypted, recipient.secretKey);
+
+    expect(decryptMessage(ciphertext, encrypted.nonce, encrypted.ephemeralPublicKey, recipient.secretKey, RECIPIENT))
+      .toMatchObject({ text: 'legacy', sender: null });
+  });
+
+  it('rejects a tampered sender signature', async () => {
+    const recipient = newRecipient();
+    const sender = newSender();
+    const encrypted = await encryptMessage('signed', recipient.publicKey, RECIPIENT, { sender });
+    const envelope = envelopeV2Json(openEnvelope(encrypted, recipient.secretKey));
+
+    const open = (tampered: object) =>
+      decryptMessage(
+        reseal(envelopeV1(tampered), encrypted, recipient.secretKey),
+        encrypted.nonce,
+        encrypted.ephemeralPublicKey,
+        recipient.secretKey,
+        RECIPIENT
+      ).sender;
+
+    const signature = decodeBase64(envelope.sender.signature);
+    signature[0] ^= 1;
+    expect(open({ ...envelope, sender: { ...envelope.sender, signature: encodeBase64(signature) } }))
+      .toEqual({ address: sender.address, verified: false });
+    expect(open({ ...envelope, text: 'forged' })).toEqual({ address: sender.address, verified: false });
+    expect(open({ ...envelope, sender: { ...envelope.sender, address: newSender().address } }))
+      .toMatchObject({ verified: false });
+
+    // The same edit inside a padded v2 envelope
+    const plaintext = openEnvelope(encrypted, recipient.secretKey);
+    const text = Buffer.from(plaintext).indexOf('"signed"') + 1;
+    plaintext.set(decodeUTF8('forged'), text);
+    expect(
+      decryptMessage(
+        reseal(plaintext, encrypted, recipient.secretKey),
+        encrypted.nonce,
+        encrypted.ephemeralPublicKey,
+        recipient.secretKey,
+        RECIPIENT
+      )
+    ).toMatchObject({ text: 'forged', sender: { address: sender.address, verified: false } });
+
+    expect(
+      decryptMessage(encrypted.ciphertext, encrypted.nonce, encrypted.ephemeralPublicKey, recipient.secretKey, 'someone else')
+        .sender
+    ).toEqual({ address: sender.address, verified: false });
+  });
+});
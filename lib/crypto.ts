@@ -1,5 +1,9 @@
 import nacl from 'tweetnacl';
 import { decodeUTF8, encodeUTF8, encodeBase64, decodeBase64 } from 'tweetnacl-util';
+import { PublicKey } from '@solana/web3.js';
+import { hkdf } from '@noble/hashes/hkdf';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { sha512 } from '@noble/hashes/sha2';
 
 /**
  * TRUE ZERO-KNOWLEDGE ASYMMETRIC ENCRYPTION
@@ -19,23 +23,307 @@ import { decodeUTF8, encodeUTF8, encodeBase64, decodeBase64 } from 'tweetnacl-ut
  * - Server literally cannot decrypt
  */
 
+/**
+ * PLAINTEXT ENVELOPE
+ *
+ * What gets encrypted is an envelope, not the bare message, so metadata
+ * like the sender's identity stays inside the ciphertext where the server
+ * cannot see it.
+ *
+ * Format:
+ * - Legacy notes: raw UTF-8 message bytes
+ * - v1: 0x00 0x01 followed by UTF-8 JSON of NoteEnvelope
+ * - v2: 0x00 0x02, uint32 BE length of the JSON, the JSON, then zero
+ *       bytes up to paddedLength() of the whole envelope
+ *
+ * A message typed by a user never starts with a NUL byte, so legacy
+ * notes are unambiguous. New notes are always v2; v1 and legacy notes
+ * still decrypt.
+ */
+const ENVELOPE_MARKER = 0x00;
+const ENVELOPE_V1 = 0x01;
+const ENVELOPE_V2 = 0x02;
+const ENVELOPE_V2_HEADER_LENGTH = 6;
+
+/**
+ * LENGTH-HIDING PADDING
+ *
+ * Ciphertext length would otherwise reveal message length - enough to
+ * tell a 6-digit code from a seed phrase. Envelopes are padded to at
+ * least MIN_PADDED_LENGTH, and above that to a PADMÉ bucket: the length
+ * is rounded up so only its top log2(log2(L)) + 1 bits can be non-zero,
+ * which leaks O(log log L) bits with at most ~12% overhead.
+ */
+const MIN_PADDED_LENGTH = 256;
+
+// Largest padded envelope a note may have (a PADMÉ bucket)
+export const MAX_PADDED_LENGTH = 64 * 1024;
+
+export function paddedLength(length: number): number {
+  if (length <= MIN_PADDED_LENGTH) {
+    return MIN_PADDED_LENGTH;
+  }
+
+  const exponent = Math.floor(Math.log2(length));
+  const significantBits = Math.floor(Math.log2(exponent)) + 1;
+  const mask = 2 ** (exponent - significantBits) - 1;
+  return Math.ceil(length / (mask + 1)) * (mask + 1);
+}
+
+/**
+ * Check that a plaintext length is one of the padded sizes
+ */
+export function isPaddedLength(length: number): boolean {
+  return length <= MAX_PADDED_LENGTH && paddedLength(length) === length;
+}
+
+export interface SenderSignature {
+  address: string;
+  signature: string;
+}
+
+export interface NoteEnvelope {
+  text: string;
+  sender?: SenderSignature;
+  // ID of the note this one replies to
+  replyTo?: string;
+  // Multi-recipient notes: every recipient, covered by the sender signature
+  recipients?: string[];
+  attachments?: AttachmentKey[];
+}
+
+export interface DecryptedNote {
+  text: string;
+  // null = anonymous note
+  sender: { address: string; verified: boolean } | null;
+  replyTo: string | null;
+  attachments: AttachmentKey[];
+}
+
+export interface SenderSigner {
+  address: string;
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>;
+}
+
+export interface RecipientKey {
+  address: string;
+  // Base64 X25519 public key registered by the recipient
+  publicKey: string;
+  // Key version of publicKey (see deriveEncryptionKeyFromSignature)
+  version: number;
+}
+
+export interface WrappedRecipientKey {
+  address: string;
+  wrappedKey: string;
+  wrapNonce: string;
+  keyVersion: number;
+}
+
+export interface EncryptOptions {
+  // Sign the note as this wallet (anonymous if omitted)
+  sender?: SenderSigner;
+  replyTo?: string;
+  attachments?: AttachmentKey[];
+}
+
+function encodeEnvelope(envelope: NoteEnvelope): Uint8Array {
+  const json = decodeUTF8(JSON.stringify(envelope));
+  const length = paddedLength(ENVELOPE_V2_HEADER_LENGTH + json.length);
+  if (length > MAX_PADDED_LENGTH) {
+    throw new Error('Message too large');
+  }
+
+  // Trailing bytes stay zero - they are the padding
+  const bytes = new Uint8Array(length);
+  bytes[0] = ENVELOPE_MARKER;
+  bytes[1] = ENVELOPE_V2;
+  bytes.set(uint32BE(json.length), 2);
+  bytes.set(json, ENVELOPE_V2_HEADER_LENGTH);
+  return bytes;
+}
+
+function decodeEnvelope(bytes: Uint8Array): NoteEnvelope {
+  if (bytes.length >= 2 && bytes[0] === ENVELOPE_MARKER) {
+    if (bytes[1] === ENVELOPE_V1) {
+      return JSON.parse(encodeUTF8(bytes.subarray(2)));
+    }
+
+    if (bytes[1] === ENVELOPE_V2 && bytes.length >= ENVELOPE_V2_HEADER_LENGTH) {
+      const length = new DataView(bytes.buffer, bytes.byteOffset + 2, 4).getUint32(0);
+      if (ENVELOPE_V2_HEADER_LENGTH + length > bytes.length) {
+        throw new Error('Invalid envelope length');
+      }
+      return JSON.parse(
+        encodeUTF8(bytes.subarray(ENVELOPE_V2_HEADER_LENGTH, ENVELOPE_V2_HEADER_LENGTH + length))
+      );
+    }
+
+    throw new Error(`Unsupported envelope version ${bytes[1]}`);
+  }
+
+  // Legacy note: the plaintext is the message itself
+  return { text: encodeUTF8(bytes) };
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function uint32BE(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Build the message a sender's wallet signs to vouch for a note
+ *
+ * The signature lives inside the encrypted envelope, so it cannot cover
+ * the ciphertext itself. Instead it covers the message together with
+ * the nonce, ephemeral public key and recipient(s) of this encryption:
+ * a recipient cannot re-encrypt a signed message and pass it off as
+ * sent to someone else, and every field is length-prefixed so no two
+ * inputs produce the same digest. replyTo and attachments are only
+ * appended when present, so signatures on notes without them are
+ * unaffected.
+ */
+function createSenderSignatureMessage(
+  text: string,
+  nonce: Uint8Array,
+  ephemeralPublicKey: Uint8Array,
+  recipientAddresses: string[],
+  replyTo?: string,
+  attachments?: AttachmentKey[]
+): Uint8Array {
+  const recipients = decodeUTF8([...recipientAddresses].sort().join('\n'));
+  const fields = [decodeUTF8(text), nonce, ephemeralPublicKey, recipients];
+  if (replyTo) {
+    fields.push(decodeUTF8(replyTo));
+  }
+  if (attachments && attachments.length > 0) {
+    fields.push(decodeUTF8(`attachments:${JSON.stringify(attachments)}`));
+  }
+  const digest = nacl.hash(
+    concatBytes(
+      decodeUTF8('DarkNote sender signature v1'),
+      ...fields.flatMap((field) => [uint32BE(field.length), field])
+    )
+  );
+
+  return decodeUTF8(`DarkNote sender signature\nDigest: ${toHex(digest)}`);
+}
+
+/**
+ * Build the plaintext envelope, signing it if a sender is given
+ */
+async function createEnvelope(
+  message: string,
+  nonce: Uint8Array,
+  ephemeralPublicKey: Uint8Array,
+  recipientAddresses: string[],
+  options: EncryptOptions
+): Promise<NoteEnvelope> {
+  const { sender, replyTo, attachments } = options;
+  const envelope: NoteEnvelope = { text: message };
+  if (replyTo) {
+    envelope.replyTo = replyTo;
+  }
+  if (attachments && attachments.length > 0) {
+    envelope.attachments = attachments;
+  }
+  if (recipientAddresses.length > 1) {
+    envelope.recipients = recipientAddresses;
+  }
+  if (sender) {
+    const signature = await sender.signMessage(
+      createSenderSignatureMessage(message, nonce, ephemeralPublicKey, recipientAddresses, replyTo, attachments)
+    );
+    envelope.sender = { address: sender.address, signature: encodeBase64(signature) };
+  }
+  return envelope;
+}
+
+/**
+ * Turn a decrypted envelope into a DecryptedNote, checking the sender
+ * signature against the recipient(s) it claims to cover
+ * Link-key notes have no recipient address (null).
+ */
+function readEnvelope(
+  plaintext: Uint8Array,
+  nonce: Uint8Array,
+  ephemeralPublicKey: Uint8Array,
+  recipientAddress: string | null
+): DecryptedNote {
+  const envelope = decodeEnvelope(plaintext);
+  const replyTo = envelope.replyTo ?? null;
+  const attachments = envelope.attachments ?? [];
+
+  if (!envelope.sender) {
+    return { text: envelope.text, sender: null, replyTo, attachments };
+  }
+
+  const recipients = envelope.recipients ?? (recipientAddress ? [recipientAddress] : []);
+  const verified =
+    (recipientAddress === null || recipients.includes(recipientAddress)) &&
+    verifySenderSignature(
+      envelope.sender,
+      createSenderSignatureMessage(
+        envelope.text,
+        nonce,
+        ephemeralPublicKey,
+        recipients,
+        envelope.replyTo,
+        envelope.attachments
+      )
+    );
+
+  return {
+    text: envelope.text,
+    sender: { address: envelope.sender.address, verified },
+    replyTo,
+    attachments,
+  };
+}
+
+function decodeRecipientPublicKey(publicKey: string): Uint8Array {
+  const bytes = decodeBase64(publicKey);
+  if (bytes.length !== 32) {
+    throw new Error('Invalid recipient public key (must be 32 bytes)');
+  }
+  return bytes;
+}
+
 /**
  * Encrypt message for recipient using NaCl box
  * Generates ephemeral keypair for forward secrecy
+ *
+ * Pass a sender to sign the note with that wallet. The signature and
+ * sender address are encrypted along with the message; without one the
+ * note is anonymous.
  */
-export function encryptMessage(
+export async function encryptMessage(
   message: string,
-  recipientPublicKey: string
-): {
+  recipientPublicKey: string,
+  recipientAddress: string,
+  options: EncryptOptions = {}
+): Promise<{
   ciphertext: string;
   nonce: string;
   ephemeralPublicKey: string;
-} {
+}> {
   // Validate recipient public key
-  const recipientPubKeyBytes = decodeBase64(recipientPublicKey);
-  if (recipientPubKeyBytes.length !== 32) {
-    throw new Error('Invalid recipient public key (must be 32 bytes)');
-  }
+  const recipientPubKeyBytes = decodeRecipientPublicKey(recipientPublicKey);
 
   // Generate ephemeral keypair for THIS message only (forward secrecy)
   const ephemeralKeypair = nacl.box.keyPair();
@@ -43,10 +331,17 @@ export function encryptMessage(
   // Generate random nonce
   const nonce = nacl.randomBytes(nacl.box.nonceLength);
 
+  const envelope = await createEnvelope(
+    message,
+    nonce,
+    ephemeralKeypair.publicKey,
+    [recipientAddress],
+    options
+  );
+
   // Encrypt using NaCl box (X25519 + XSalsa20-Poly1305)
-  const messageBytes = decodeUTF8(message);
   const encrypted = nacl.box(
-    messageBytes,
+    encodeEnvelope(envelope),
     nonce,
     recipientPubKeyBytes,
     ephemeralKeypair.secretKey
@@ -63,23 +358,86 @@ export function encryptMessage(
   };
 }
 
+/**
+ * Encrypt one message for several recipients
+ *
+ * The envelope is encrypted once with NaCl secretbox under a random
+ * note key. That key is then wrapped with NaCl box for each recipient,
+ * all from a single ephemeral keypair with a fresh nonce per recipient.
+ * Ciphertext size stays the same whatever the number of recipients.
+ */
+export async function encryptMessageForRecipients(
+  message: string,
+  recipients: RecipientKey[],
+  options: EncryptOptions = {}
+): Promise<{
+  ciphertext: string;
+  nonce: string;
+  ephemeralPublicKey: string;
+  recipients: WrappedRecipientKey[];
+}> {
+  const recipientKeys = recipients.map((recipient) => ({
+    address: recipient.address,
+    publicKey: decodeRecipientPublicKey(recipient.publicKey),
+    version: recipient.version,
+  }));
+
+  const ephemeralKeypair = nacl.box.keyPair();
+  const noteKey = nacl.randomBytes(nacl.secretbox.keyLength);
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+
+  const envelope = await createEnvelope(
+    message,
+    nonce,
+    ephemeralKeypair.publicKey,
+    recipients.map((recipient) => recipient.address),
+    options
+  );
+
+  const encrypted = nacl.secretbox(encodeEnvelope(envelope), nonce, noteKey);
+
+  const wrapped = recipientKeys.map((recipient) => {
+    const wrapNonce = nacl.randomBytes(nacl.box.nonceLength);
+    const wrappedKey = nacl.box(noteKey, wrapNonce, recipient.publicKey, ephemeralKeypair.secretKey);
+    return {
+      address: recipient.address,
+      wrappedKey: encodeBase64(wrappedKey),
+      wrapNonce: encodeBase64(wrapNonce),
+      keyVersion: recipient.version,
+    };
+  });
+
+  return {
+    ciphertext: encodeBase64(encrypted),
+    nonce: encodeBase64(nonce),
+    ephemeralPublicKey: encodeBase64(ephemeralKeypair.publicKey),
+    recipients: wrapped,
+  };
+}
+
 /**
  * Decrypt message using recipient's secret key
+ * Verifies the sender signature, if the note carries one.
  */
 export function decryptMessage(
   ciphertext: string,
   nonce: string,
   ephemeralPublicKey: string,
-  recipientSecretKey: string
-): string {
+  recipientSecretKey: string,
+  recipientAddress: string
+): DecryptedNote {
+  let decrypted: Uint8Array | null;
+  let nonceBytes: Uint8Array;
+  let ephemeralPubKeyBytes: Uint8Array;
+
   try {
     const ciphertextBytes = decodeBase64(ciphertext);
-    const nonceBytes = decodeBase64(nonce);
-    const ephemeralPubKeyBytes = decodeBase64(ephemeralPublicKey);
+    nonceBytes = decodeBase64(nonce);
+    ephemeralPubKeyBytes = decodeBase64(ephemeralPublicKey);
     const recipientSecretKeyBytes = decodeBase64(recipientSecretKey);
 
     // Decrypt using NaCl box
-    const decrypted = nacl.box.open(
+    decrypted = nacl.box.open(
       ciphertextBytes,
       nonceBytes,
       ephemeralPubKeyBytes,
@@ -89,11 +447,381 @@ export function decryptMessage(
     if (!decrypted) {
       throw new Error('Decryption failed - invalid key or corrupted data');
     }
+  } catch (error) {
+    throw new Error(`Decryption failed: ${error}`);
+  }
+
+  return readEnvelope(decrypted, nonceBytes, ephemeralPubKeyBytes, recipientAddress);
+}
+
+/**
+ * Decrypt a multi-recipient message
+ * Unwraps the note key with the recipient's secret key, then opens the
+ * shared secretbox.
+ */
+export function decryptMultiRecipientMessage(
+  ciphertext: string,
+  nonce: string,
+  ephemeralPublicKey: string,
+  wrappedKey: string,
+  wrapNonce: string,
+  recipientSecretKey: string,
+  recipientAddress: string
+): DecryptedNote {
+  let decrypted: Uint8Array | null;
+  let nonceBytes: Uint8Array;
+  let ephemeralPubKeyBytes: Uint8Array;
+
+  try {
+    nonceBytes = decodeBase64(nonce);
+    ephemeralPubKeyBytes = decodeBase64(ephemeralPublicKey);
+
+    const noteKey = nacl.box.open(
+      decodeBase64(wrappedKey),
+      decodeBase64(wrapNonce),
+      ephemeralPubKeyBytes,
+      decodeBase64(recipientSecretKey)
+    );
+
+    if (!noteKey) {
+      throw new Error('Key unwrap failed - invalid key or corrupted data');
+    }
 
-    return encodeUTF8(decrypted);
+    decrypted = nacl.secretbox.open(decodeBase64(ciphertext), nonceBytes, noteKey);
+
+    if (!decrypted) {
+      throw new Error('Decryption failed - corrupted data');
+    }
   } catch (error) {
     throw new Error(`Decryption failed: ${error}`);
   }
+
+  return readEnvelope(decrypted, nonceBytes, ephemeralPubKeyBytes, recipientAddress);
+}
+
+/**
+ * LINK-KEY NOTES
+ *
+ * For recipients with no wallet or no registered key. The envelope is
+ * sealed with NaCl secretbox under a random link key that only travels
+ * in the URL fragment (/note/<id>#k=...), which browsers never send to
+ * the server. An optional passphrase is stretched with scrypt (salted
+ * with the link key) and mixed into the note key, so the link alone is
+ * not enough to read the note.
+ *
+ * The note key also yields an access proof; the server only stores its
+ * hash and requires the proof to open the note, so a visitor without
+ * the full link - or with a wrong passphrase - cannot burn a read.
+ * Sender signatures are bound to the note key in place of an ephemeral
+ * public key.
+ */
+export const LINK_PROOF_HEADER = 'x-darknote-link-proof';
+
+const LINK_KEY_LENGTH = 32;
+const LINK_SCRYPT_OPTIONS = { N: 2 ** 16, r: 8, p: 1, dkLen: 32 };
+
+function toBase64Url(bytes: Uint8Array): string {
+  return encodeBase64(bytes)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=/g, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return decodeBase64(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+}
+
+function domainHash(domain: string, data: Uint8Array): Uint8Array {
+  return nacl.hash(concatBytes(decodeUTF8(domain), data)).slice(0, 32);
+}
+
+/**
+ * Derive the note key and access proof from a link key (and passphrase)
+ *
+ * @param linkKey - Base64url link key from the URL fragment
+ * @param passphrase - Passphrase the sender set, if any
+ */
+export async function deriveLinkAccess(
+  linkKey: string,
+  passphrase?: string
+): Promise<{ noteKey: string; accessProof: string }> {
+  const linkKeyBytes = fromBase64Url(linkKey);
+  if (linkKeyBytes.length !== LINK_KEY_LENGTH) {
+    throw new Error('Invalid link key');
+  }
+
+  let noteKey = linkKeyBytes;
+  if (passphrase) {
+    const stretched = await scryptAsync(
+      decodeUTF8(passphrase.normalize('NFKC')),
+      linkKeyBytes,
+      LINK_SCRYPT_OPTIONS
+    );
+    noteKey = domainHash('DarkNote link passphrase key', concatBytes(linkKeyBytes, stretched));
+  }
+
+  return {
+    noteKey: encodeBase64(noteKey),
+    accessProof: encodeBase64(domainHash('DarkNote link access', noteKey)),
+  };
+}
+
+/**
+ * Hash of an access proof, as stored by the server
+ */
+export function hashLinkAccessProof(accessProof: string): string {
+  return encodeBase64(domainHash('DarkNote link access hash', decodeBase64(accessProof)));
+}
+
+/**
+ * Encrypt a message under a fresh link key
+ * Returns the link key for the URL fragment and the access hash for the
+ * server, besides the ciphertext.
+ */
+export async function encryptMessageWithLinkKey(
+  message: string,
+  passphrase?: string,
+  options: EncryptOptions = {}
+): Promise<{
+  ciphertext: string;
+  nonce: string;
+  accessHash: string;
+  linkKey: string;
+}> {
+  const linkKey = toBase64Url(nacl.randomBytes(LINK_KEY_LENGTH));
+  const { noteKey, accessProof } = await deriveLinkAccess(linkKey, passphrase);
+  const noteKeyBytes = decodeBase64(noteKey);
+
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const envelope = await createEnvelope(
+    message,
+    nonce,
+    domainHash('DarkNote link note', noteKeyBytes),
+    [],
+    options
+  );
+
+  const encrypted = nacl.secretbox(encodeEnvelope(envelope), nonce, noteKeyBytes);
+
+  return {
+    ciphertext: encodeBase64(encrypted),
+    nonce: encodeBase64(nonce),
+    accessHash: hashLinkAccessProof(accessProof),
+    linkKey,
+  };
+}
+
+/**
+ * Decrypt a link-key note with the note key from deriveLinkAccess()
+ */
+export function decryptLinkMessage(
+  ciphertext: string,
+  nonce: string,
+  noteKey: string
+): DecryptedNote {
+  let decrypted: Uint8Array | null;
+  let nonceBytes: Uint8Array;
+  let noteKeyBytes: Uint8Array;
+
+  try {
+    nonceBytes = decodeBase64(nonce);
+    noteKeyBytes = decodeBase64(noteKey);
+    decrypted = nacl.secretbox.open(decodeBase64(ciphertext), nonceBytes, noteKeyBytes);
+
+    if (!decrypted) {
+      throw new Error('Decryption failed - wrong key or corrupted data');
+    }
+  } catch (error) {
+    throw new Error(`Decryption failed: ${error}`);
+  }
+
+  return readEnvelope(decrypted, nonceBytes, domainHash('DarkNote link note', noteKeyBytes), null);
+}
+
+function verifySenderSignature(sender: SenderSignature, message: Uint8Array): boolean {
+  try {
+    const signatureBytes = decodeBase64(sender.signature);
+    if (signatureBytes.length !== nacl.sign.signatureLength) {
+      return false;
+    }
+    return nacl.sign.detached.verify(message, signatureBytes, new PublicKey(sender.address).toBytes());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ENCRYPTED ATTACHMENTS
+ *
+ * Files are split into ATTACHMENT_CHUNK_SIZE chunks, each sealed with
+ * NaCl secretbox under a random per-file key. Chunk i uses the nonce
+ * baseNonce (16 random bytes) || uint64BE(i), so the server cannot
+ * reorder chunks, and chunkCount in the envelope stops it from
+ * truncating the file. The key, file name, type and size only travel
+ * inside the note envelope.
+ */
+export const ATTACHMENT_CHUNK_SIZE = 256 * 1024;
+export const UPLOAD_TOKEN_HEADER = 'x-darknote-upload-token';
+
+const ATTACHMENT_BASE_NONCE_LENGTH = 16;
+
+export interface AttachmentKey {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  chunkCount: number;
+  // Base64 per-file secretbox key
+  key: string;
+  // Base64 16-byte base nonce
+  nonce: string;
+}
+
+function attachmentChunkNonce(baseNonce: Uint8Array, index: number): Uint8Array {
+  const nonce = new Uint8Array(nacl.secretbox.nonceLength);
+  nonce.set(baseNonce);
+  // High 32 bits of the counter stay zero: files never reach 2^32 chunks
+  nonce.set(uint32BE(index), ATTACHMENT_BASE_NONCE_LENGTH + 4);
+  return nonce;
+}
+
+/**
+ * Encrypt file contents into chunks under a fresh per-file key
+ */
+export function encryptAttachment(data: Uint8Array): {
+  key: string;
+  nonce: string;
+  chunks: Uint8Array[];
+} {
+  const key = nacl.randomBytes(nacl.secretbox.keyLength);
+  const baseNonce = nacl.randomBytes(ATTACHMENT_BASE_NONCE_LENGTH);
+
+  const chunks: Uint8Array[] = [];
+  const chunkCount = Math.max(1, Math.ceil(data.length / ATTACHMENT_CHUNK_SIZE));
+  for (let index = 0; index < chunkCount; index++) {
+    const chunk = data.subarray(index * ATTACHMENT_CHUNK_SIZE, (index + 1) * ATTACHMENT_CHUNK_SIZE);
+    chunks.push(nacl.secretbox(chunk, attachmentChunkNonce(baseNonce, index), key));
+  }
+
+  return {
+    key: encodeBase64(key),
+    nonce: encodeBase64(baseNonce),
+    chunks,
+  };
+}
+
+/**
+ * Decrypt one chunk of an attachment
+ */
+export function decryptAttachmentChunk(
+  chunk: Uint8Array,
+  attachment: AttachmentKey,
+  index: number
+): Uint8Array {
+  const decrypted = nacl.secretbox.open(
+    chunk,
+    attachmentChunkNonce(decodeBase64(attachment.nonce), index),
+    decodeBase64(attachment.key)
+  );
+
+  if (!decrypted) {
+    throw new Error(`Attachment chunk ${index} failed to decrypt`);
+  }
+
+  return decrypted;
+}
+
+/**
+ * KEY DERIVATION SCHEMES
+ *
+ * Scheme 1 (original): the wallet signs "DarkNote encryption key for
+ * <address>" and the X25519 seed is the first 32 bytes of SHA-512 of the
+ * signature. Kept so keys registered with it keep working.
+ *
+ * Scheme 2: the wallet signs a structured message naming the app domain,
+ * the derivation purpose, the scheme and the key version. The signature
+ * is input key material for HKDF-SHA512, which expands it into one
+ * independent key per KeyPurpose. Only 'encryption' exists today; a new
+ * purpose can be derived from the same signature without changing the
+ * keys already registered.
+ *
+ * Registered keys record the scheme that produced them.
+ */
+export type DerivationScheme = 1 | 2;
+
+export const CURRENT_DERIVATION_SCHEME: DerivationScheme = 2;
+
+export type KeyPurpose = 'encryption';
+
+export interface DerivedKeypair {
+  publicKey: string;
+  secretKey: string;
+}
+
+const DERIVATION_DOMAIN = 'darknote';
+const HKDF_SALT = decodeUTF8('DarkNote key derivation v2');
+/**
+ * The message a wallet signs to derive its keys
+ */
+export function createKeyDerivationMessage(
+  walletAddress: string,
+  version: number,
+  scheme: DerivationScheme
+): string {
+  if (scheme === 1) {
+    return version === 1
+      ? `DarkNote encryption key for ${walletAddress}`
+      : `DarkNote encryption key for ${walletAddress} (version ${version})`;
+  }
+
+  return [
+    'DarkNote key derivation',
+    `Domain: ${DERIVATION_DOMAIN}`,
+    'Purpose: derive encryption keys for this wallet',
+    `Wallet: ${walletAddress}`,
+    `Scheme: ${scheme}`,
+    `Key version: ${version}`,
+    '',
+    'Only sign this on DarkNote. It does not send a transaction.',
+  ].join('\n');
+}
+
+function encryptionKeypair(seed: Uint8Array): DerivedKeypair {
+  const keypair = nacl.box.keyPair.fromSecretKey(seed);
+
+  return {
+    publicKey: encodeBase64(keypair.publicKey),
+    secretKey: encodeBase64(keypair.secretKey),
+  };
+}
+
+/**
+ * Derive several purpose-specific keypairs from one wallet signature
+ * (scheme 2 only)
+ *
+ * @param signMessage - Wallet's signMessage function
+ * @param walletAddress - Base58 Solana wallet address
+ * @param purposes - Keys to derive
+ * @param version - Key version to derive (1 = original key)
+ * @returns One keypair per requested purpose
+ */
+export async function deriveWalletKeys<P extends KeyPurpose>(
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>,
+  walletAddress: string,
+  purposes: P[],
+  version: number = 1
+): Promise<Record<P, DerivedKeypair>> {
+  const signature = await signMessage(
+    decodeUTF8(createKeyDerivationMessage(walletAddress, version, 2))
+  );
+
+  const keys = {} as Record<P, DerivedKeypair>;
+  for (const purpose of purposes) {
+    const seed = hkdf(sha512, signature, HKDF_SALT, decodeUTF8(`DarkNote ${purpose} key`), 32);
+    keys[purpose] = encryptionKeypair(seed);
+  }
+  return keys;
 }
 
 /**
@@ -110,37 +838,119 @@ export function decryptMessage(
  * This means the encryption key is DERIVED from the wallet, not CONVERTED from it.
  * Same wallet signature → same encryption keypair (deterministic).
  *
+ * Rotating a key bumps its version, which changes the signed message and
+ * so the derived keypair. Version 1 keeps the original message, so keys
+ * registered before rotation existed still derive unchanged. Any older
+ * version can be derived again to read notes encrypted to it.
+ *
  * @param signMessage - Wallet's signMessage function
  * @param walletAddress - Base58 Solana wallet address
+ * @param version - Key version to derive (1 = original key)
+ * @param scheme - Derivation scheme the key was registered with
  * @returns X25519 keypair for encryption
  */
 export async function deriveEncryptionKeyFromSignature(
   signMessage: (message: Uint8Array) => Promise<Uint8Array>,
-  walletAddress: string
-): Promise<{ publicKey: string; secretKey: string }> {
+  walletAddress: string,
+  version: number = 1,
+  scheme: DerivationScheme = 1
+): Promise<DerivedKeypair> {
+  if (scheme === 2) {
+    const { encryption } = await deriveWalletKeys(signMessage, walletAddress, ['encryption'], version);
+    return encryption;
+  }
+
   // Create deterministic message to sign
-  const message = decodeUTF8(`DarkNote encryption key for ${walletAddress}`);
+  const message = decodeUTF8(createKeyDerivationMessage(walletAddress, version, 1));
 
   // Get signature (proves wallet ownership)
   const signature = await signMessage(message);
 
   // Use signature as seed for keypair (deterministic)
   const seed = nacl.hash(signature).slice(0, 32);
-  const keypair = nacl.box.keyPair.fromSecretKey(seed);
+  return encryptionKeypair(seed);
+}
 
-  return {
-    publicKey: encodeBase64(keypair.publicKey),
-    secretKey: encodeBase64(keypair.secretKey),
-  };
+/**
+ * WALLET AUTHENTICATION
+ *
+ * API calls that act on behalf of a wallet are signed by that wallet.
+ * The server issues a single-use nonce (GET /api/auth/challenge), the
+ * wallet signs a message binding the nonce to the request purpose and
+ * its parameters, and the signature travels in these headers.
+ */
+export const AUTH_HEADERS = {
+  wallet: 'x-darknote-wallet',
+  nonce: 'x-darknote-nonce',
+  signature: 'x-darknote-signature',
+} as const;
+
+export type AuthPurpose =
+  | 'register-key'
+  | 'revoke-key'
+  | 'set-pow-difficulty'
+  | 'set-inbound-policy'
+  | 'read-inbound-policy'
+  | 'check-inbound-policy'
+  | 'send-note'
+  | 'delete-note'
+  | 'open-note'
+  | 'list-inbox'
+  | 'list-switches'
+  | 'check-in-switch'
+  | 'cancel-switch';
+
+/**
+ * Build the message a wallet signs to authenticate an API call
+ *
+ * Fields are request parameters the signature must cover (e.g. the key
+ * being registered), so a signature for one request cannot be reused
+ * for another.
+ */
+export function createAuthMessage(
+  purpose: AuthPurpose,
+  walletAddress: string,
+  nonce: string,
+  fields: Record<string, string> = {}
+): string {
+  return [
+    'DarkNote authentication',
+    `Purpose: ${purpose}`,
+    `Wallet: ${walletAddress}`,
+    `Nonce: ${nonce}`,
+    ...Object.entries(fields).map(([name, value]) => `${name}: ${value}`),
+  ].join('\n');
 }
 
 /**
  * Generate a random note ID
+ * Note IDs are assigned by the server (POST /api/notes), so clients
+ * cannot pick guessable ones.
  */
 export function generateNoteId(): string {
-  const bytes = nacl.randomBytes(16);
-  return encodeBase64(bytes)
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=/g, '');
+  return toBase64Url(nacl.randomBytes(16));
+}
+
+/**
+ * IDEMPOTENT NOTE CREATION
+ *
+ * Clients send a random key with each note they create. A retry after a
+ * network failure reuses the key and gets the note the first attempt
+ * stored, instead of creating a second one.
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+/**
+ * Generate a random idempotency key
+ */
+export function generateIdempotencyKey(): string {
+  return toBase64Url(nacl.randomBytes(16));
+}
+
+/**
+ * Hash of a note's base64 ciphertext, signed by senders who identify
+ * themselves - the note ID is not known until the server assigns it
+ */
+export function hashNoteCiphertext(ciphertext: string): string {
+  return encodeBase64(domainHash('DarkNote note ciphertext', decodeBase64(ciphertext)));
 }
@@ -1,24 +1,41 @@
 import Database from 'better-sqlite3';
 import path from 'path';
+import { config } from '@/lib/config';
+import { getPendingMigrations, runMigrations } from '@/lib/migrations';
+import { InboundPolicy } from '@/lib/policy';
+import {
+  ATTACHMENT_DOWNLOAD_WINDOW_MS,
+  Attachment,
+  AuthChallenge,
+  ChallengeStore,
+  IdempotentRequest,
+  isNoteLocked,
+  KeyStore,
+  Note,
+  NoteRecipient,
+  NoteStore,
+  OpenNoteResult,
+  PowChallenge,
+  RecipientSettings,
+  RegisteredKey,
+} from '@/lib/store';
 
 let db: Database.Database | null = null;
 
-export interface Note {
-  id: string;
-  ciphertext: string;
-  nonce: string;
-  ephemeralPublicKey: string;
-  recipientAddress: string;
-  createdAt: number;
-  selfDestruct: boolean;
-  maxReads: number | null;
-  currentReads: number;
+/**
+ * Token bucket of the SQLite rate-limit store (see lib/rateLimit.ts)
+ */
+export interface RateLimitBucket {
+  key: string;
+  tokens: number;
+  updatedAt: number;
 }
 
-export interface RegisteredKey {
-  walletAddress: string;
-  encryptionPublicKey: string;
-  registeredAt: number;
+/**
+ * A notes row as SQLite returns it: booleans are stored as integers
+ */
+interface NoteRow extends Omit<Note, 'selfDestruct'> {
+  selfDestruct: number;
 }
 
 /**
@@ -27,140 +44,395 @@ export interface RegisteredKey {
 function getDb(): Database.Database {
   if (!db) {
     const dbPath = path.join(process.cwd(), 'darknote.db');
-    db = new Database(dbPath);
-    db.pragma('journal_mode = WAL');
-    initDb();
+    const connection = new Database(dbPath);
+    connection.pragma('journal_mode = WAL');
+    migrate(connection);
+    connection.pragma('foreign_keys = ON');
+    db = connection;
   }
   return db;
 }
 
 /**
- * Initialize database schema
- *
- * ZERO-KNOWLEDGE ASYMMETRIC ENCRYPTION:
- * We store: ciphertext, nonce, ephemeralPublicKey
- * Server CANNOT decrypt - only recipient's secret key can decrypt.
- */
-function initDb() {
-  const db = getDb();
-
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS notes (
-      id TEXT PRIMARY KEY,
-      ciphertext TEXT NOT NULL,
-      nonce TEXT NOT NULL,
-      ephemeralPublicKey TEXT NOT NULL,
-      recipientAddress TEXT NOT NULL,
-      createdAt INTEGER NOT NULL,
-      selfDestruct INTEGER NOT NULL DEFAULT 1,
-      maxReads INTEGER,
-      currentReads INTEGER NOT NULL DEFAULT 0
-    )
-  `);
-
-  // Migration: Add new columns if they don't exist
-  try {
-    db.exec(`ALTER TABLE notes ADD COLUMN selfDestruct INTEGER NOT NULL DEFAULT 1`);
-  } catch {
-    // Column already exists
+ * Bring the schema up to date (see lib/migrations.ts)
+ * With DARKNOTE_MIGRATIONS=check, refuse to open a database that has
+ * pending migrations instead, and list them.
+ */
+function migrate(connection: Database.Database): void {
+  if (config.migrations === 'check') {
+    const pending = getPendingMigrations(connection);
+    if (pending.length > 0) {
+      throw new Error(
+        `darknote.db has ${pending.length} pending migration(s): ` +
+        pending.map((migration) => `${migration.version} (${migration.name})`).join(', ') +
+        '. Set DARKNOTE_MIGRATIONS=apply to run them.'
+      );
+    }
+    return;
   }
 
-  try {
-    db.exec(`ALTER TABLE notes ADD COLUMN maxReads INTEGER`);
-  } catch {
-    // Column already exists
+  for (const migration of runMigrations(connection)) {
+    console.log(`Database: applied migration ${migration.version} (${migration.name})`);
   }
+}
 
-  try {
-    db.exec(`ALTER TABLE notes ADD COLUMN currentReads INTEGER NOT NULL DEFAULT 0`);
-  } catch {
-    // Column already exists
-  }
+/**
+ * Open the database and migrate it
+ * Called at startup, so a database from a newer version of DarkNote (or
+ * a failing migration) stops the server before it handles any request.
+ */
+export function openDb(): void {
+  getDb();
+}
+
+/**
+ * Create a new encrypted note
+ * Multi-recipient notes also store one wrapped key per recipient.
+ * Attachment IDs must refer to fully uploaded pending attachments
+ * (see isAttachmentReady); they are attached to the new note.
+ * Returns null if the note ID or the request's idempotency key is taken.
+ */
+function createNote(
+  note: Omit<Note, 'createdAt' | 'currentReads' | 'releasedAt'>,
+  recipients: Omit<NoteRecipient, 'noteId' | 'currentReads'>[] = [],
+  attachmentIds: string[] = [],
+  request?: Omit<IdempotentRequest, 'noteId' | 'noteExpiresAt'>
+): Note | null {
+  const db = getDb();
+
+  const createdAt = Date.now();
+
+  const noteExists = db.prepare(`SELECT 1 FROM notes WHERE id = ?`);
+
+  // Expired keys are free again, even before the sweeper removes them
+  const requestExists = db.prepare(`SELECT 1 FROM idempotency_keys WHERE key = ? AND expiresAt > ?`);
+
+  const insertNote = db.prepare(`
+    INSERT INTO notes (id, mode, ciphertext, nonce, ephemeralPublicKey, recipientAddress, createdAt, selfDestruct, maxReads, currentReads, unlockAt, expiresAt, keyVersion, accessHash, switchOwner, checkInInterval)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertRecipient = db.prepare(`
+    INSERT INTO note_recipients (noteId, recipientAddress, wrappedKey, wrapNonce, currentReads, keyVersion)
+    VALUES (?, ?, ?, ?, 0, ?)
+  `);
 
-  // Create index on createdAt for cleanup of old notes
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_notes_createdAt ON notes(createdAt)
+  const attachToNote = db.prepare(`
+    UPDATE attachments SET noteId = ?, status = 'attached', expiresAt = NULL
+    WHERE id = ? AND status = 'pending'
   `);
 
-  // Create registered_keys table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS registered_keys (
-      walletAddress TEXT PRIMARY KEY,
-      encryptionPublicKey TEXT NOT NULL,
-      registeredAt INTEGER NOT NULL
-    )
+  const insertRequest = db.prepare(`
+    INSERT OR REPLACE INTO idempotency_keys (key, requestHash, noteId, noteExpiresAt, expiresAt)
+    VALUES (?, ?, ?, ?, ?)
   `);
+
+  // Immediate, so no other process can take the ID or key between the
+  // check and the insert
+  const create = db.transaction((): boolean => {
+    if (noteExists.get(note.id) || (request && requestExists.get(request.key, createdAt))) {
+      return false;
+    }
+
+    insertNote.run(
+      note.id,
+      note.mode,
+      note.ciphertext,
+      note.nonce,
+      note.ephemeralPublicKey,
+      note.recipientAddress,
+      createdAt,
+      note.selfDestruct ? 1 : 0,
+      note.maxReads ?? null,
+      0,
+      note.unlockAt ?? null,
+      note.expiresAt ?? null,
+      note.keyVersion,
+      note.accessHash,
+      note.switchOwner ?? null,
+      note.checkInInterval ?? null
+    );
+
+    for (const recipient of recipients) {
+      insertRecipient.run(
+        note.id,
+        recipient.recipientAddress,
+        recipient.wrappedKey,
+        recipient.wrapNonce,
+        recipient.keyVersion
+      );
+    }
+
+    for (const attachmentId of attachmentIds) {
+      attachToNote.run(note.id, attachmentId);
+    }
+
+    if (request) {
+      insertRequest.run(request.key, request.requestHash, note.id, note.expiresAt ?? null, request.expiresAt);
+    }
+
+    return true;
+  });
+
+  if (!create.immediate()) return null;
+
+  return { ...note, createdAt, currentReads: 0, releasedAt: null };
+}
+
+function rowToNote(row: NoteRow): Note {
+  return { ...row, selfDestruct: row.selfDestruct === 1 };
 }
 
 /**
- * Create a new encrypted note
+ * Get a note by ID
+ * Expired notes are treated as already burned, even before the sweeper
+ * has removed them.
  */
-export function createNote(note: Omit<Note, 'createdAt' | 'currentReads'>): Note {
+function getNote(id: string): Note | null {
   const db = getDb();
 
-  const createdAt = Date.now();
+  const stmt = db.prepare(`
+    SELECT * FROM notes WHERE id = ? AND (expiresAt IS NULL OR expiresAt > ?)
+  `);
+
+  const row = stmt.get(id, Date.now()) as NoteRow | undefined;
+  return row ? rowToNote(row) : null;
+}
+
+/**
+ * Get one recipient's wrapped key for a multi-recipient note
+ */
+function getNoteRecipient(noteId: string, recipientAddress: string): NoteRecipient | null {
+  const db = getDb();
 
   const stmt = db.prepare(`
-    INSERT INTO notes (id, ciphertext, nonce, ephemeralPublicKey, recipientAddress, createdAt, selfDestruct, maxReads, currentReads)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    SELECT * FROM note_recipients WHERE noteId = ? AND recipientAddress = ?
   `);
 
-  stmt.run(
-    note.id,
-    note.ciphertext,
-    note.nonce,
-    note.ephemeralPublicKey,
-    note.recipientAddress,
-    createdAt,
-    note.selfDestruct ? 1 : 0,
-    note.maxReads ?? null,
-    0
-  );
+  const recipient = stmt.get(noteId, recipientAddress) as NoteRecipient | undefined;
+  return recipient || null;
+}
+
+/**
+ * List unexpired notes addressed to a wallet, newest first
+ * For multi-recipient notes currentReads and keyVersion are this
+ * wallet's own.
+ */
+function listNotesForRecipient(recipientAddress: string): Note[] {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    SELECT notes.*,
+      COALESCE(note_recipients.currentReads, notes.currentReads) AS currentReads,
+      COALESCE(note_recipients.keyVersion, notes.keyVersion) AS keyVersion
+    FROM notes
+    LEFT JOIN note_recipients
+      ON note_recipients.noteId = notes.id AND note_recipients.recipientAddress = ?
+    WHERE (notes.recipientAddress = ? OR note_recipients.recipientAddress IS NOT NULL)
+      AND (notes.expiresAt IS NULL OR notes.expiresAt > ?)
+      AND (notes.switchOwner IS NULL OR notes.releasedAt IS NOT NULL)
+    ORDER BY notes.createdAt DESC
+  `);
 
-  return { ...note, createdAt, currentReads: 0 };
+  const rows = stmt.all(recipientAddress, recipientAddress, Date.now()) as NoteRow[];
+  return rows.map(rowToNote);
 }
 
 /**
- * Get a note by ID and increment read count
+ * List a wallet's unreleased, unexpired dead man's switch notes,
+ * newest first
  */
-export function getNote(id: string): Note | null {
+function listSwitchesForOwner(ownerAddress: string): Note[] {
   const db = getDb();
 
   const stmt = db.prepare(`
-    SELECT * FROM notes WHERE id = ?
+    SELECT * FROM notes
+    WHERE switchOwner = ? AND releasedAt IS NULL AND (expiresAt IS NULL OR expiresAt > ?)
+    ORDER BY createdAt DESC
   `);
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const note = stmt.get(id) as any | undefined;
-  if (!note) return null;
+  const rows = stmt.all(ownerAddress, Date.now()) as NoteRow[];
+  return rows.map(rowToNote);
+}
 
-  // Convert SQLite integers to booleans
-  const result: Note = {
-    ...note,
-    selfDestruct: note.selfDestruct === 1,
-  };
+/**
+ * Check in on a dead man's switch: move its deadline (unlockAt) to
+ * checkInInterval from now, and its expiresAt by as much
+ * Returns null if the note is not an unreleased switch owned by
+ * ownerAddress or its deadline has already passed.
+ */
+function checkInSwitch(id: string, ownerAddress: string): Note | null {
+  const db = getDb();
+
+  const now = Date.now();
+
+  // A missed deadline stands even before the sweeper releases the note
+  const stmt = db.prepare(`
+    UPDATE notes SET
+      expiresAt = expiresAt + (? + checkInInterval - unlockAt),
+      unlockAt = ? + checkInInterval
+    WHERE id = ? AND switchOwner = ? AND releasedAt IS NULL AND unlockAt > ?
+  `);
 
-  return result;
+  const result = stmt.run(now, now, id, ownerAddress, now);
+  return result.changes > 0 ? getNote(id) : null;
 }
 
 /**
- * Increment read count for a note
+ * Cancel a dead man's switch: delete the note before it is released
+ * Returns false once its deadline has passed, even before the sweeper
+ * releases the note.
  */
-export function incrementReadCount(id: string): boolean {
+function cancelSwitch(id: string, ownerAddress: string): boolean {
   const db = getDb();
 
+  const now = Date.now();
+
   const stmt = db.prepare(`
-    UPDATE notes SET currentReads = currentReads + 1 WHERE id = ?
+    DELETE FROM notes WHERE id = ? AND switchOwner = ? AND releasedAt IS NULL AND unlockAt > ?
   `);
 
-  const result = stmt.run(id);
+  const result = stmt.run(id, ownerAddress, now);
   return result.changes > 0;
 }
 
+/**
+ * Release dead man's switches whose deadline has passed (background
+ * task - run periodically)
+ */
+function releaseOverdueSwitches(): number {
+  const db = getDb();
+
+  const now = Date.now();
+
+  const stmt = db.prepare(`
+    UPDATE notes SET releasedAt = ?
+    WHERE switchOwner IS NOT NULL AND releasedAt IS NULL AND unlockAt <= ?
+  `);
+
+  const result = stmt.run(now, now);
+  return result.changes;
+}
+
+/**
+ * Open a note: check the read budget and consume one read atomically
+ *
+ * Runs in an IMMEDIATE transaction so concurrent opens (even from other
+ * processes sharing the database) are serialized and can never grant
+ * more than maxReads reads. The note is burned when its budget is spent:
+ * - maxReads set: after maxReads reads
+ * - no maxReads + selfDestruct: after the first read
+ * - no maxReads + no selfDestruct: never
+ *
+ * Multi-recipient notes keep a separate budget per recipient. A recipient
+ * whose budget is spent loses their wrapped key; the note itself is
+ * deleted once no recipient has reads left.
+ *
+ * The caller must have checked that recipientAddress may open the note
+ * (for link notes, that the access proof matches; recipientAddress is null).
+ * Returns null if the note does not exist, is locked (see isNoteLocked)
+ * or has no reads left.
+ */
+function openNote(id: string, recipientAddress: string | null): OpenNoteResult | null {
+  const db = getDb();
+
+  const open = db.transaction((noteId: string): OpenNoteResult | null => {
+    const note = getNote(noteId);
+    if (!note || isNoteLocked(note)) return null;
+
+    const budget = note.maxReads ?? (note.selfDestruct ? 1 : null);
+
+    if (note.mode === 'multi') {
+      if (!recipientAddress) return null;
+
+      const recipient = getNoteRecipient(noteId, recipientAddress);
+      if (!recipient) return null;
+
+      if (budget !== null && recipient.currentReads >= budget) {
+        removeNoteRecipient(noteId, recipientAddress);
+        return null;
+      }
+
+      const currentReads = recipient.currentReads + 1;
+      const burned = budget !== null && currentReads >= budget;
+
+      if (burned) {
+        removeNoteRecipient(noteId, recipientAddress, true);
+      } else {
+        db.prepare(`
+          UPDATE note_recipients SET currentReads = ? WHERE noteId = ? AND recipientAddress = ?
+        `).run(currentReads, noteId, recipientAddress);
+      }
+
+      return {
+        note: { ...note, currentReads },
+        recipient: { ...recipient, currentReads },
+        burned,
+      };
+    }
+
+    if (budget !== null && note.currentReads >= budget) {
+      deleteNote(noteId);
+      return null;
+    }
+
+    const currentReads = note.currentReads + 1;
+    const burned = budget !== null && currentReads >= budget;
+
+    if (burned) {
+      releaseAttachments(noteId);
+      deleteNote(noteId);
+    } else {
+      db.prepare(`
+        UPDATE notes SET currentReads = ? WHERE id = ?
+      `).run(currentReads, noteId);
+    }
+
+    return { note: { ...note, currentReads }, recipient: null, burned };
+  });
+
+  return open.immediate(id);
+}
+
+/**
+ * Remove one recipient from a multi-recipient note
+ * Deletes the note itself when its last recipient is removed. Pass
+ * afterRead when the recipient just read the note, so its attachments
+ * stay downloadable for a short while.
+ */
+function removeNoteRecipient(
+  noteId: string,
+  recipientAddress: string,
+  afterRead: boolean = false
+): boolean {
+  const db = getDb();
+
+  const remove = db.transaction((): boolean => {
+    const result = db.prepare(`
+      DELETE FROM note_recipients WHERE noteId = ? AND recipientAddress = ?
+    `).run(noteId, recipientAddress);
+
+    const remaining = db.prepare(`
+      SELECT COUNT(*) AS count FROM note_recipients WHERE noteId = ?
+    `).get(noteId) as { count: number };
+
+    if (remaining.count === 0) {
+      if (afterRead) {
+        releaseAttachments(noteId);
+      }
+      deleteNote(noteId);
+    }
+
+    return result.changes > 0;
+  });
+
+  return remove();
+}
+
 /**
  * Delete a note by ID (burn after reading)
  */
-export function deleteNote(id: string): boolean {
+function deleteNote(id: string): boolean {
   const db = getDb();
 
   const stmt = db.prepare(`
@@ -171,17 +443,31 @@ export function deleteNote(id: string): boolean {
   return result.changes > 0;
 }
 
+/**
+ * Delete notes past their expiresAt (cleanup task - run periodically)
+ */
+function deleteExpiredNotes(): number {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    DELETE FROM notes WHERE expiresAt IS NOT NULL AND expiresAt <= ?
+  `);
+
+  const result = stmt.run(Date.now());
+  return result.changes;
+}
+
 /**
  * Delete old notes (cleanup task - run periodically)
- * Deletes notes older than 30 days
+ * Deletes notes created more than 30 days ago, except dead man's switches
  */
-export function deleteOldNotes(maxAgeMs: number = 30 * 24 * 60 * 60 * 1000): number {
+function deleteOldNotes(maxAgeMs: number = 30 * 24 * 60 * 60 * 1000): number {
   const db = getDb();
 
   const cutoffTime = Date.now() - maxAgeMs;
 
   const stmt = db.prepare(`
-    DELETE FROM notes WHERE createdAt < ?
+    DELETE FROM notes WHERE createdAt < ? AND switchOwner IS NULL
   `);
 
   const result = stmt.run(cutoffTime);
@@ -189,36 +475,544 @@ export function deleteOldNotes(maxAgeMs: number = 30 * 24 * 60 * 60 * 1000): num
 }
 
 /**
- * Register encryption public key for a wallet
+ * Get a recorded create request by its idempotency key
+ */
+function getIdempotentRequest(key: string): IdempotentRequest | null {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    SELECT * FROM idempotency_keys WHERE key = ? AND expiresAt > ?
+  `);
+
+  const request = stmt.get(key, Date.now()) as IdempotentRequest | undefined;
+  return request || null;
+}
+
+/**
+ * Delete expired idempotent requests (cleanup task - run periodically)
+ */
+function deleteExpiredIdempotentRequests(): number {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    DELETE FROM idempotency_keys WHERE expiresAt <= ?
+  `);
+
+  const result = stmt.run(Date.now());
+  return result.changes;
+}
+
+/**
+ * Create a pending attachment awaiting chunk uploads
+ */
+function createAttachment(attachment: Omit<Attachment, 'noteId' | 'status'>): Attachment {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    INSERT INTO attachments (id, noteId, status, uploadToken, chunkCount, createdAt, expiresAt)
+    VALUES (?, NULL, 'pending', ?, ?, ?, ?)
+  `);
+
+  stmt.run(
+    attachment.id,
+    attachment.uploadToken,
+    attachment.chunkCount,
+    attachment.createdAt,
+    attachment.expiresAt
+  );
+
+  return { ...attachment, noteId: null, status: 'pending' };
+}
+
+/**
+ * Get an attachment by ID
+ * Expired attachments are treated as gone, even before the sweeper has
+ * removed them.
  */
-export function registerKey(key: Omit<RegisteredKey, 'registeredAt'>): RegisteredKey {
+function getAttachment(id: string): Attachment | null {
   const db = getDb();
-  const registeredAt = Date.now();
 
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO registered_keys (walletAddress, encryptionPublicKey, registeredAt)
+    SELECT * FROM attachments WHERE id = ? AND (expiresAt IS NULL OR expiresAt > ?)
+  `);
+
+  const attachment = stmt.get(id, Date.now()) as Attachment | undefined;
+  return attachment || null;
+}
+
+/**
+ * Store one encrypted chunk of a pending attachment
+ */
+function saveAttachmentChunk(attachmentId: string, chunkIndex: number, data: Buffer): void {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO attachment_chunks (attachmentId, chunkIndex, data)
     VALUES (?, ?, ?)
   `);
 
-  stmt.run(key.walletAddress, key.encryptionPublicKey, registeredAt);
+  stmt.run(attachmentId, chunkIndex, data);
+}
+
+/**
+ * Get one encrypted chunk of an attachment
+ */
+function getAttachmentChunk(attachmentId: string, chunkIndex: number): Buffer | null {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    SELECT data FROM attachment_chunks WHERE attachmentId = ? AND chunkIndex = ?
+  `);
+
+  const row = stmt.get(attachmentId, chunkIndex) as { data: Buffer } | undefined;
+  return row ? row.data : null;
+}
+
+/**
+ * Check that a pending attachment exists, matches its upload token and
+ * has every chunk uploaded, so it can be attached to a note
+ */
+function isAttachmentReady(id: string, uploadToken: string): boolean {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    SELECT attachments.chunkCount, COUNT(attachment_chunks.chunkIndex) AS uploaded
+    FROM attachments
+    LEFT JOIN attachment_chunks ON attachment_chunks.attachmentId = attachments.id
+    WHERE attachments.id = ? AND attachments.uploadToken = ? AND attachments.status = 'pending'
+      AND attachments.expiresAt > ?
+    GROUP BY attachments.id
+  `);
+
+  const row = stmt.get(id, uploadToken, Date.now()) as { chunkCount: number; uploaded: number } | undefined;
+  return !!row && row.uploaded === row.chunkCount;
+}
+
+/**
+ * Detach a burned note's attachments and keep them for a short
+ * download window (ATTACHMENT_DOWNLOAD_WINDOW_MS)
+ */
+function releaseAttachments(noteId: string): void {
+  const db = getDb();
+
+  db.prepare(`
+    UPDATE attachments SET noteId = NULL, status = 'released', expiresAt = ?
+    WHERE noteId = ?
+  `).run(Date.now() + ATTACHMENT_DOWNLOAD_WINDOW_MS, noteId);
+}
+
+/**
+ * Delete expired attachments (cleanup task - run periodically)
+ * Covers uploads never attached to a note and released attachments
+ * whose download window has passed. Attachments of deleted notes are
+ * removed by ON DELETE CASCADE.
+ */
+function deleteExpiredAttachments(): number {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    DELETE FROM attachments WHERE expiresAt IS NOT NULL AND expiresAt <= ?
+  `);
+
+  const result = stmt.run(Date.now());
+  return result.changes;
+}
 
-  return { ...key, registeredAt };
+/**
+ * Register an encryption public key version for a wallet
+ *
+ * Versions only move forward one at a time: the first key is version 1
+ * and each rotation registers current + 1, keeping every older version in
+ * key_history. Re-registering the current key is a no-op, unless it has
+ * been revoked.
+ * Returns null if key.version is not the next version for this wallet.
+ */
+function registerKey(
+  key: Omit<RegisteredKey, 'registeredAt' | 'revokedAt' | 'revocationReason'>
+): RegisteredKey | null {
+  const db = getDb();
+
+  const register = db.transaction((): RegisteredKey | null => {
+    const current = getRegisteredKey(key.walletAddress);
+
+    if (
+      current &&
+      !current.revokedAt &&
+      current.version === key.version &&
+      current.scheme === key.scheme &&
+      current.encryptionPublicKey.equals(key.encryptionPublicKey)
+    ) {
+      return current;
+    }
+
+    if (key.version !== (current?.version ?? 0) + 1) {
+      return null;
+    }
+
+    const registeredAt = Date.now();
+
+    db.prepare(`
+      INSERT INTO key_history (walletAddress, version, encryptionPublicKey, scheme, registeredAt)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(key.walletAddress, key.version, key.encryptionPublicKey, key.scheme, registeredAt);
+
+    db.prepare(`
+      INSERT OR REPLACE INTO registered_keys (walletAddress, encryptionPublicKey, version, scheme, registeredAt)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(key.walletAddress, key.encryptionPublicKey, key.version, key.scheme, registeredAt);
+
+    return { ...key, registeredAt, revokedAt: null, revocationReason: null };
+  });
+
+  return register.immediate();
 }
 
 /**
- * Get registered encryption public key for a wallet
+ * Get the current registered encryption public key for a wallet
+ * (including its revocation, if any)
  */
-export function getRegisteredKey(walletAddress: string): RegisteredKey | null {
+function getRegisteredKey(walletAddress: string): RegisteredKey | null {
   const db = getDb();
 
   const stmt = db.prepare(`
-    SELECT * FROM registered_keys WHERE walletAddress = ?
+    SELECT registered_keys.*, key_history.revokedAt, key_history.revocationReason
+    FROM registered_keys
+    LEFT JOIN key_history
+      ON key_history.walletAddress = registered_keys.walletAddress
+      AND key_history.version = registered_keys.version
+    WHERE registered_keys.walletAddress = ?
   `);
 
   const key = stmt.get(walletAddress) as RegisteredKey | undefined;
   return key || null;
 }
 
+/**
+ * Get one version of a wallet's encryption public key, current or older
+ */
+function getKeyVersion(walletAddress: string, version: number): RegisteredKey | null {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    SELECT * FROM key_history WHERE walletAddress = ? AND version = ?
+  `);
+
+  const key = stmt.get(walletAddress, version) as RegisteredKey | undefined;
+  return key || null;
+}
+
+/**
+ * Revoke one version of a wallet's encryption key
+ * Returns the revoked key, or null if the version does not exist or is
+ * already revoked.
+ */
+function revokeKey(walletAddress: string, version: number, reason: string): RegisteredKey | null {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    UPDATE key_history SET revokedAt = ?, revocationReason = ?
+    WHERE walletAddress = ? AND version = ? AND revokedAt IS NULL
+  `);
+
+  const result = stmt.run(Date.now(), reason, walletAddress, version);
+  return result.changes > 0 ? getKeyVersion(walletAddress, version) : null;
+}
+
+/**
+ * Store a new auth challenge nonce for a wallet
+ */
+function createAuthChallenge(challenge: AuthChallenge): AuthChallenge {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    INSERT INTO auth_challenges (nonce, walletAddress, createdAt, expiresAt)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  stmt.run(
+    challenge.nonce,
+    challenge.walletAddress,
+    challenge.createdAt,
+    challenge.expiresAt
+  );
+
+  return challenge;
+}
+
+/**
+ * Consume an auth challenge nonce (single use)
+ * Returns false if the nonce is unknown, expired, already used or
+ * was issued to a different wallet.
+ */
+function consumeAuthChallenge(nonce: string, walletAddress: string): boolean {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    DELETE FROM auth_challenges WHERE nonce = ? AND walletAddress = ? AND expiresAt > ?
+  `);
+
+  const result = stmt.run(nonce, walletAddress, Date.now());
+  return result.changes > 0;
+}
+
+/**
+ * Delete expired auth challenges
+ * Used nonces are deleted when consumed, so this only has to sweep
+ * nonces that were issued but never redeemed.
+ */
+function deleteExpiredAuthChallenges(): number {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    DELETE FROM auth_challenges WHERE expiresAt <= ?
+  `);
+
+  const result = stmt.run(Date.now());
+  return result.changes;
+}
+
+/**
+ * Get a wallet's recipient settings (defaults if it never set any)
+ */
+function getRecipientSettings(walletAddress: string): RecipientSettings {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    SELECT * FROM recipient_settings WHERE walletAddress = ?
+  `);
+
+  const settings = stmt.get(walletAddress) as RecipientSettings | undefined;
+  return settings || { walletAddress, powDifficulty: 0, inboundPolicy: 'anyone', updatedAt: 0 };
+}
+
+/**
+ * Set the proof-of-work difficulty a wallet requires of its senders
+ */
+function setRecipientPowDifficulty(walletAddress: string, powDifficulty: number): RecipientSettings {
+  const db = getDb();
+
+  const updatedAt = Date.now();
+
+  db.prepare(`
+    INSERT INTO recipient_settings (walletAddress, powDifficulty, updatedAt) VALUES (?, ?, ?)
+    ON CONFLICT(walletAddress) DO UPDATE SET powDifficulty = excluded.powDifficulty, updatedAt = excluded.updatedAt
+  `).run(walletAddress, powDifficulty, updatedAt);
+
+  return getRecipientSettings(walletAddress);
+}
+
+/**
+ * Set a wallet's inbound policy and replace its sender list
+ * The list is the allow-list or block-list, depending on the policy.
+ */
+function setInboundPolicy(
+  walletAddress: string,
+  inboundPolicy: InboundPolicy,
+  senderAddresses: string[]
+): RecipientSettings {
+  const db = getDb();
+
+  const updatedAt = Date.now();
+
+  const insertSender = db.prepare(`
+    INSERT OR IGNORE INTO policy_senders (walletAddress, senderAddress) VALUES (?, ?)
+  `);
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO recipient_settings (walletAddress, inboundPolicy, updatedAt) VALUES (?, ?, ?)
+      ON CONFLICT(walletAddress) DO UPDATE SET inboundPolicy = excluded.inboundPolicy, updatedAt = excluded.updatedAt
+    `).run(walletAddress, inboundPolicy, updatedAt);
+
+    db.prepare(`
+      DELETE FROM policy_senders WHERE walletAddress = ?
+    `).run(walletAddress);
+
+    for (const senderAddress of senderAddresses) {
+      insertSender.run(walletAddress, senderAddress);
+    }
+  })();
+
+  return getRecipientSettings(walletAddress);
+}
+
+/**
+ * List the senders on a wallet's allow-list or block-list
+ */
+function getPolicySenders(walletAddress: string): string[] {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    SELECT senderAddress FROM policy_senders WHERE walletAddress = ? ORDER BY senderAddress
+  `);
+
+  const rows = stmt.all(walletAddress) as { senderAddress: string }[];
+  return rows.map((row) => row.senderAddress);
+}
+
+/**
+ * Check whether a sender is on a wallet's allow-list or block-list
+ */
+function isPolicySender(walletAddress: string, senderAddress: string): boolean {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    SELECT 1 FROM policy_senders WHERE walletAddress = ? AND senderAddress = ?
+  `);
+
+  return stmt.get(walletAddress, senderAddress) !== undefined;
+}
+
+/**
+ * Store a new proof-of-work challenge
+ */
+function createPowChallenge(challenge: PowChallenge): PowChallenge {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    INSERT INTO pow_challenges (challenge, createdAt, expiresAt)
+    VALUES (?, ?, ?)
+  `);
+
+  stmt.run(challenge.challenge, challenge.createdAt, challenge.expiresAt);
+
+  return challenge;
+}
+
+/**
+ * Consume a proof-of-work challenge (single use)
+ * Returns false if the challenge is unknown, expired or already used.
+ */
+function consumePowChallenge(challenge: string): boolean {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    DELETE FROM pow_challenges WHERE challenge = ? AND expiresAt > ?
+  `);
+
+  const result = stmt.run(challenge, Date.now());
+  return result.changes > 0;
+}
+
+/**
+ * Delete expired proof-of-work challenges
+ */
+function deleteExpiredPowChallenges(): number {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    DELETE FROM pow_challenges WHERE expiresAt <= ?
+  `);
+
+  const result = stmt.run(Date.now());
+  return result.changes;
+}
+
+/**
+ * Read and replace a rate-limit bucket atomically
+ * Runs in an IMMEDIATE transaction so processes sharing the database
+ * never both spend the same token. update() receives null for a key
+ * that has no bucket yet.
+ */
+export function updateRateLimitBucket(
+  key: string,
+  update: (bucket: RateLimitBucket | null) => RateLimitBucket
+): RateLimitBucket {
+  const db = getDb();
+
+  const change = db.transaction((bucketKey: string): RateLimitBucket => {
+    const current = db.prepare(`
+      SELECT * FROM rate_limit_buckets WHERE key = ?
+    `).get(bucketKey) as RateLimitBucket | undefined;
+
+    const next = update(current ?? null);
+
+    db.prepare(`
+      INSERT INTO rate_limit_buckets (key, tokens, updatedAt) VALUES (?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET tokens = excluded.tokens, updatedAt = excluded.updatedAt
+    `).run(bucketKey, next.tokens, next.updatedAt);
+
+    return next;
+  });
+
+  return change.immediate(key);
+}
+
+/**
+ * Delete rate-limit buckets untouched for longer than maxIdleMs
+ * An idle bucket has refilled, so dropping it changes nothing.
+ */
+export function deleteStaleRateLimitBuckets(maxIdleMs: number): number {
+  const db = getDb();
+
+  const stmt = db.prepare(`
+    DELETE FROM rate_limit_buckets WHERE updatedAt < ?
+  `);
+
+  const result = stmt.run(Date.now() - maxIdleMs);
+  return result.changes;
+}
+
+/**
+ * SQLite note store (see lib/store.ts)
+ */
+export function createSqliteNoteStore(): NoteStore {
+  return {
+    createNote,
+    getNote,
+    getNoteRecipient,
+    listNotesForRecipient,
+    listSwitchesForOwner,
+    checkInSwitch,
+    cancelSwitch,
+    releaseOverdueSwitches,
+    openNote,
+    removeNoteRecipient,
+    deleteNote,
+    deleteExpiredNotes,
+    deleteOldNotes,
+    getIdempotentRequest,
+    deleteExpiredIdempotentRequests,
+    createAttachment,
+    getAttachment,
+    saveAttachmentChunk,
+    getAttachmentChunk,
+    isAttachmentReady,
+    deleteExpiredAttachments,
+  };
+}
+
+/**
+ * SQLite key store (see lib/store.ts)
+ */
+export function createSqliteKeyStore(): KeyStore {
+  return {
+    registerKey,
+    getRegisteredKey,
+    getKeyVersion,
+    revokeKey,
+    getRecipientSettings,
+    setRecipientPowDifficulty,
+    setInboundPolicy,
+    getPolicySenders,
+    isPolicySender,
+  };
+}
+
+/**
+ * SQLite challenge store (see lib/store.ts)
+ */
+export function createSqliteChallengeStore(): ChallengeStore {
+  return {
+    createAuthChallenge,
+    consumeAuthChallenge,
+    deleteExpiredAuthChallenges,
+    createPowChallenge,
+    consumePowChallenge,
+    deleteExpiredPowChallenges,
+  };
+}
+
 /**
  * Close database connection
  */
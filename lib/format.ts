@@ -0,0 +1,37 @@
+/**
+ * Display formatting helpers shared by client pages
+ */
+
+/**
+ * Format the time left until a timestamp, e.g. "in 3 days", "in 5 minutes"
+ */
+export function formatTimeRemaining(timestamp: number, now: number = Date.now()): string {
+  const remainingMs = timestamp - now;
+  if (remainingMs <= 0) return 'now';
+
+  const minutes = Math.ceil(remainingMs / (60 * 1000));
+  if (minutes < 60) return `in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+
+  const days = Math.round(hours / 24);
+  return `in ${days} days`;
+}
+
+/**
+ * Format a live countdown to a timestamp, e.g. "2d 03:14:05", "00:04:59"
+ */
+export function formatCountdown(timestamp: number, now: number = Date.now()): string {
+  const totalSeconds = Math.max(0, Math.ceil((timestamp - now) / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const clock = [
+    Math.floor(totalSeconds / 3600) % 24,
+    Math.floor(totalSeconds / 60) % 60,
+    totalSeconds % 60,
+  ]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
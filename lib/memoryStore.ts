@@ -0,0 +1,551 @@
+import {
+  ATTACHMENT_DOWNLOAD_WINDOW_MS,
+  Attachment,
+  AuthChallenge,
+  ChallengeStore,
+  IdempotentRequest,
+  isNoteLocked,
+  KeyStore,
+  Note,
+  NoteRecipient,
+  NoteStore,
+  PowChallenge,
+  RecipientSettings,
+  RegisteredKey,
+} from '@/lib/store';
+
+/**
+ * IN-MEMORY STORAGE
+ *
+ * Implements the storage contract (lib/store.ts) with plain Maps, mirroring
+ * the SQLite tables. Everything is per process and lost on restart.
+ * Calls are synchronous, so each one is atomic like a SQLite transaction.
+ *
+ * Records (and their byte fields) are copied on the way in and out so
+ * callers can never change stored state by mutating a returned object.
+ */
+
+function copyBytes<T extends Buffer | null>(bytes: T): T {
+  return (bytes && Buffer.from(bytes)) as T;
+}
+
+function copyNote<T extends Omit<Note, 'createdAt' | 'currentReads' | 'releasedAt'>>(note: T): T {
+  return {
+    ...note,
+    ciphertext: copyBytes(note.ciphertext),
+    nonce: copyBytes(note.nonce),
+    ephemeralPublicKey: copyBytes(note.ephemeralPublicKey),
+    accessHash: copyBytes(note.accessHash),
+  };
+}
+
+function copyRecipient<T extends Omit<NoteRecipient, 'noteId' | 'currentReads'>>(recipient: T): T {
+  return { ...recipient, wrappedKey: copyBytes(recipient.wrappedKey), wrapNonce: copyBytes(recipient.wrapNonce) };
+}
+
+function copyKey<T extends Omit<RegisteredKey, 'registeredAt' | 'revokedAt' | 'revocationReason'>>(key: T): T {
+  return { ...key, encryptionPublicKey: copyBytes(key.encryptionPublicKey) };
+}
+
+function isLive(expiresAt: number | null, now: number): boolean {
+  return expiresAt === null || expiresAt > now;
+}
+
+/**
+ * In-memory note store, per process
+ */
+export function createMemoryNoteStore(): NoteStore {
+  const notes = new Map<string, Note>();
+  // noteId -> recipientAddress -> recipient
+  const recipients = new Map<string, Map<string, NoteRecipient>>();
+  const idempotentRequests = new Map<string, IdempotentRequest>();
+  const attachments = new Map<string, Attachment>();
+  // attachmentId -> chunkIndex -> data
+  const chunks = new Map<string, Map<number, Buffer>>();
+
+  function deleteAttachment(id: string): void {
+    attachments.delete(id);
+    chunks.delete(id);
+  }
+
+  function releaseAttachments(noteId: string): void {
+    const expiresAt = Date.now() + ATTACHMENT_DOWNLOAD_WINDOW_MS;
+    for (const attachment of attachments.values()) {
+      if (attachment.noteId === noteId) {
+        Object.assign(attachment, { noteId: null, status: 'released', expiresAt });
+      }
+    }
+  }
+
+  function getNote(id: string): Note | null {
+    const note = notes.get(id);
+    if (!note || !isLive(note.expiresAt, Date.now())) return null;
+    return copyNote(note);
+  }
+
+  function getIdempotentRequest(key: string): IdempotentRequest | null {
+    const request = idempotentRequests.get(key);
+    return request && request.expiresAt > Date.now() ? { ...request } : null;
+  }
+
+  function getNoteRecipient(noteId: string, recipientAddress: string): NoteRecipient | null {
+    const recipient = recipients.get(noteId)?.get(recipientAddress);
+    return recipient ? copyRecipient(recipient) : null;
+  }
+
+  function deleteNote(id: string): boolean {
+    if (!notes.delete(id)) return false;
+
+    recipients.delete(id);
+    for (const attachment of Array.from(attachments.values())) {
+      if (attachment.noteId === id) {
+        deleteAttachment(attachment.id);
+      }
+    }
+    return true;
+  }
+
+  function deleteNotesWhere(predicate: (note: Note) => boolean): number {
+    let deleted = 0;
+    for (const note of Array.from(notes.values())) {
+      if (predicate(note) && deleteNote(note.id)) {
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  function removeNoteRecipient(noteId: string, recipientAddress: string, afterRead: boolean = false): boolean {
+    const noteRecipients = recipients.get(noteId);
+    const removed = noteRecipients?.delete(recipientAddress) ?? false;
+
+    if (!noteRecipients || noteRecipients.size === 0) {
+      if (afterRead) {
+        releaseAttachments(noteId);
+      }
+      deleteNote(noteId);
+    }
+
+    return removed;
+  }
+
+  return {
+    createNote(note, noteRecipients = [], attachmentIds = [], request) {
+      if (notes.has(note.id) || (request && getIdempotentRequest(request.key))) {
+        return null;
+      }
+
+      const created: Note = {
+        ...copyNote(note),
+        maxReads: note.maxReads ?? null,
+        unlockAt: note.unlockAt ?? null,
+        expiresAt: note.expiresAt ?? null,
+        switchOwner: note.switchOwner ?? null,
+        checkInInterval: note.checkInInterval ?? null,
+        releasedAt: null,
+        createdAt: Date.now(),
+        currentReads: 0,
+      };
+      notes.set(note.id, created);
+
+      if (noteRecipients.length > 0) {
+        recipients.set(
+          note.id,
+          new Map(noteRecipients.map((recipient) => [
+            recipient.recipientAddress,
+            { ...copyRecipient(recipient), noteId: note.id, currentReads: 0 },
+          ]))
+        );
+      }
+
+      for (const attachmentId of attachmentIds) {
+        const attachment = attachments.get(attachmentId);
+        if (attachment?.status === 'pending') {
+          Object.assign(attachment, { noteId: note.id, status: 'attached', expiresAt: null });
+        }
+      }
+
+      if (request) {
+        idempotentRequests.set(request.key, {
+          ...request,
+          noteId: note.id,
+          noteExpiresAt: created.expiresAt,
+        });
+      }
+
+      return copyNote(created);
+    },
+
+    getNote,
+    getNoteRecipient,
+
+    listNotesForRecipient(recipientAddress) {
+      const now = Date.now();
+      const listed: Note[] = [];
+
+      for (const note of notes.values()) {
+        if (!isLive(note.expiresAt, now) || (note.switchOwner !== null && note.releasedAt === null)) continue;
+
+        const recipient = recipients.get(note.id)?.get(recipientAddress);
+        if (recipient) {
+          listed.push({ ...copyNote(note), currentReads: recipient.currentReads, keyVersion: recipient.keyVersion });
+        } else if (note.recipientAddress === recipientAddress) {
+          listed.push(copyNote(note));
+        }
+      }
+
+      return listed.sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    listSwitchesForOwner(ownerAddress) {
+      const now = Date.now();
+      return Array.from(notes.values())
+        .filter((note) => note.switchOwner === ownerAddress && note.releasedAt === null && isLive(note.expiresAt, now))
+        .map((note) => copyNote(note))
+        .sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    checkInSwitch(id, ownerAddress) {
+      const now = Date.now();
+      const note = notes.get(id);
+
+      // A missed deadline stands even before the sweeper releases the note
+      if (
+        !note ||
+        note.switchOwner !== ownerAddress ||
+        note.releasedAt !== null ||
+        note.unlockAt === null ||
+        note.unlockAt <= now
+      ) {
+        return null;
+      }
+
+      const unlockAt = now + note.checkInInterval!;
+      Object.assign(note, {
+        expiresAt: note.expiresAt === null ? null : note.expiresAt + (unlockAt - note.unlockAt),
+        unlockAt,
+      });
+      return getNote(id);
+    },
+
+    cancelSwitch(id, ownerAddress) {
+      const note = notes.get(id);
+      if (!note || note.switchOwner !== ownerAddress || !isNoteLocked(note)) return false;
+      return deleteNote(id);
+    },
+
+    releaseOverdueSwitches() {
+      const now = Date.now();
+      let released = 0;
+      for (const note of notes.values()) {
+        if (note.switchOwner !== null && note.releasedAt === null && note.unlockAt !== null && note.unlockAt <= now) {
+          note.releasedAt = now;
+          released++;
+        }
+      }
+      return released;
+    },
+
+    openNote(id, recipientAddress) {
+      const note = getNote(id);
+      if (!note || isNoteLocked(note)) return null;
+
+      const budget = note.maxReads ?? (note.selfDestruct ? 1 : null);
+
+      if (note.mode === 'multi') {
+        if (!recipientAddress) return null;
+
+        const recipient = getNoteRecipient(id, recipientAddress);
+        if (!recipient) return null;
+
+        if (budget !== null && recipient.currentReads >= budget) {
+          removeNoteRecipient(id, recipientAddress);
+          return null;
+        }
+
+        const currentReads = recipient.currentReads + 1;
+        const burned = budget !== null && currentReads >= budget;
+
+        if (burned) {
+          removeNoteRecipient(id, recipientAddress, true);
+        } else {
+          recipients.get(id)!.get(recipientAddress)!.currentReads = currentReads;
+        }
+
+        return {
+          note: { ...note, currentReads },
+          recipient: { ...recipient, currentReads },
+          burned,
+        };
+      }
+
+      if (budget !== null && note.currentReads >= budget) {
+        deleteNote(id);
+        return null;
+      }
+
+      const currentReads = note.currentReads + 1;
+      const burned = budget !== null && currentReads >= budget;
+
+      if (burned) {
+        releaseAttachments(id);
+        deleteNote(id);
+      } else {
+        notes.get(id)!.currentReads = currentReads;
+      }
+
+      return { note: { ...note, currentReads }, recipient: null, burned };
+    },
+
+    removeNoteRecipient,
+    deleteNote,
+
+    deleteExpiredNotes() {
+      const now = Date.now();
+      return deleteNotesWhere((note) => note.expiresAt !== null && note.expiresAt <= now);
+    },
+
+    deleteOldNotes(maxAgeMs) {
+      const cutoffTime = Date.now() - maxAgeMs;
+      return deleteNotesWhere((note) => note.createdAt < cutoffTime && note.switchOwner === null);
+    },
+
+    getIdempotentRequest,
+
+    deleteExpiredIdempotentRequests() {
+      const now = Date.now();
+      let deleted = 0;
+      for (const request of Array.from(idempotentRequests.values())) {
+        if (request.expiresAt <= now) {
+          idempotentRequests.delete(request.key);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+
+    createAttachment(attachment) {
+      if (attachments.has(attachment.id)) {
+        throw new Error(`Attachment already exists: ${attachment.id}`);
+      }
+
+      const created: Attachment = { ...attachment, noteId: null, status: 'pending' };
+      attachments.set(attachment.id, created);
+      return { ...created };
+    },
+
+    getAttachment(id) {
+      const attachment = attachments.get(id);
+      if (!attachment || !isLive(attachment.expiresAt, Date.now())) return null;
+      return { ...attachment };
+    },
+
+    saveAttachmentChunk(attachmentId, chunkIndex, data) {
+      if (!attachments.has(attachmentId)) {
+        throw new Error(`Attachment not found: ${attachmentId}`);
+      }
+
+      if (!chunks.has(attachmentId)) {
+        chunks.set(attachmentId, new Map());
+      }
+      chunks.get(attachmentId)!.set(chunkIndex, Buffer.from(data));
+    },
+
+    getAttachmentChunk(attachmentId, chunkIndex) {
+      const data = chunks.get(attachmentId)?.get(chunkIndex);
+      return data ? Buffer.from(data) : null;
+    },
+
+    isAttachmentReady(id, uploadToken) {
+      const attachment = attachments.get(id);
+      return (
+        !!attachment &&
+        attachment.uploadToken === uploadToken &&
+        attachment.status === 'pending' &&
+        attachment.expiresAt !== null &&
+        attachment.expiresAt > Date.now() &&
+        (chunks.get(id)?.size ?? 0) === attachment.chunkCount
+      );
+    },
+
+    deleteExpiredAttachments() {
+      const now = Date.now();
+      let deleted = 0;
+      for (const attachment of Array.from(attachments.values())) {
+        if (attachment.expiresAt !== null && attachment.expiresAt <= now) {
+          deleteAttachment(attachment.id);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+  };
+}
+
+/**
+ * In-memory key store, per process
+ */
+export function createMemoryKeyStore(): KeyStore {
+  // walletAddress -> version -> key (every version, like key_history)
+  const keys = new Map<string, Map<number, RegisteredKey>>();
+  // walletAddress -> current version (like registered_keys)
+  const currentVersions = new Map<string, number>();
+  const settings = new Map<string, RecipientSettings>();
+  const policySenders = new Map<string, Set<string>>();
+
+  function getKeyVersion(walletAddress: string, version: number): RegisteredKey | null {
+    const key = keys.get(walletAddress)?.get(version);
+    return key ? copyKey(key) : null;
+  }
+
+  function getRegisteredKey(walletAddress: string): RegisteredKey | null {
+    const version = currentVersions.get(walletAddress);
+    return version === undefined ? null : getKeyVersion(walletAddress, version);
+  }
+
+  function getRecipientSettings(walletAddress: string): RecipientSettings {
+    const stored = settings.get(walletAddress);
+    return stored
+      ? { ...stored }
+      : { walletAddress, powDifficulty: 0, inboundPolicy: 'anyone', updatedAt: 0 };
+  }
+
+  function updateSettings(walletAddress: string, changes: Partial<RecipientSettings>): RecipientSettings {
+    settings.set(walletAddress, { ...getRecipientSettings(walletAddress), ...changes, updatedAt: Date.now() });
+    return getRecipientSettings(walletAddress);
+  }
+
+  return {
+    registerKey(key) {
+      const current = getRegisteredKey(key.walletAddress);
+
+      if (
+        current &&
+        !current.revokedAt &&
+        current.version === key.version &&
+        current.scheme === key.scheme &&
+        current.encryptionPublicKey.equals(key.encryptionPublicKey)
+      ) {
+        return current;
+      }
+
+      if (key.version !== (current?.version ?? 0) + 1) {
+        return null;
+      }
+
+      const registered: RegisteredKey = {
+        ...copyKey(key),
+        registeredAt: Date.now(),
+        revokedAt: null,
+        revocationReason: null,
+      };
+
+      if (!keys.has(key.walletAddress)) {
+        keys.set(key.walletAddress, new Map());
+      }
+      keys.get(key.walletAddress)!.set(key.version, registered);
+      currentVersions.set(key.walletAddress, key.version);
+
+      return copyKey(registered);
+    },
+
+    getRegisteredKey,
+    getKeyVersion,
+
+    revokeKey(walletAddress, version, reason) {
+      const key = keys.get(walletAddress)?.get(version);
+      if (!key || key.revokedAt) return null;
+
+      key.revokedAt = Date.now();
+      key.revocationReason = reason;
+      return copyKey(key);
+    },
+
+    getRecipientSettings,
+
+    setRecipientPowDifficulty(walletAddress, powDifficulty) {
+      return updateSettings(walletAddress, { powDifficulty });
+    },
+
+    setInboundPolicy(walletAddress, inboundPolicy, senderAddresses) {
+      policySenders.set(walletAddress, new Set(senderAddresses));
+      return updateSettings(walletAddress, { inboundPolicy });
+    },
+
+    getPolicySenders(walletAddress) {
+      return Array.from(policySenders.get(walletAddress) ?? []).sort();
+    },
+
+    isPolicySender(walletAddress, senderAddress) {
+      return policySenders.get(walletAddress)?.has(senderAddress) ?? false;
+    },
+  };
+}
+
+/**
+ * In-memory challenge store, per process
+ */
+export function createMemoryChallengeStore(): ChallengeStore {
+  const authChallenges = new Map<string, AuthChallenge>();
+  const powChallenges = new Map<string, PowChallenge>();
+
+  return {
+    createAuthChallenge(challenge) {
+      if (authChallenges.has(challenge.nonce)) {
+        throw new Error(`Auth challenge already exists: ${challenge.nonce}`);
+      }
+      authChallenges.set(challenge.nonce, { ...challenge });
+      return challenge;
+    },
+
+    consumeAuthChallenge(nonce, walletAddress) {
+      const challenge = authChallenges.get(nonce);
+      if (!challenge || challenge.walletAddress !== walletAddress || challenge.expiresAt <= Date.now()) {
+        return false;
+      }
+      authChallenges.delete(nonce);
+      return true;
+    },
+
+    deleteExpiredAuthChallenges() {
+      const now = Date.now();
+      let deleted = 0;
+      for (const challenge of Array.from(authChallenges.values())) {
+        if (challenge.expiresAt <= now) {
+          authChallenges.delete(challenge.nonce);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+
+    createPowChallenge(challenge) {
+      if (powChallenges.has(challenge.challenge)) {
+        throw new Error(`Proof-of-work challenge already exists: ${challenge.challenge}`);
+      }
+      powChallenges.set(challenge.challenge, { ...challenge });
+      return challenge;
+    },
+
+    consumePowChallenge(challenge) {
+      const stored = powChallenges.get(challenge);
+      if (!stored || stored.expiresAt <= Date.now()) {
+        return false;
+      }
+      powChallenges.delete(challenge);
+      return true;
+    },
+
+    deleteExpiredPowChallenges() {
+      const now = Date.now();
+      let deleted = 0;
+      for (const challenge of Array.from(powChallenges.values())) {
+        if (challenge.expiresAt <= now) {
+          powChallenges.delete(challenge.challenge);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+  };
+}
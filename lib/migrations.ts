@@ -0,0 +1,545 @@
+import Database from 'better-sqlite3';
+
+/**
+ * SCHEMA MIGRATIONS
+ *
+ * The SQLite schema (lib/db.ts) is built by numbered migrations, applied
+ * in order when the database is opened. Each one runs in a transaction
+ * together with its row in schema_migrations, so a failing migration
+ * leaves the database on the previous version and its error surfaces
+ * instead of being swallowed.
+ *
+ * Never edit a migration that has shipped - add a new one at the end.
+ *
+ * Databases created before schema_migrations existed are adopted by
+ * running every migration: migrations 1-16 check for the tables and
+ * columns such a database may already have.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: number;
+}
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some((existing) => existing.name === column);
+}
+
+function isNotNull(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string; notnull: number }[];
+  return columns.some((existing) => existing.name === column && existing.notnull === 1);
+}
+
+function addColumn(db: Database.Database, table: string, column: string, definition: string): void {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Recreate a table from new DDL (SQLite cannot alter column constraints)
+ * Rows are copied over for every column both versions have, and the
+ * table's indexes are recreated.
+ */
+function rebuildTable(db: Database.Database, table: string, columnsSql: string): void {
+  const indexes = db.prepare(`
+    SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL
+  `).all(table) as { sql: string }[];
+
+  db.exec(`CREATE TABLE ${table}_rebuild (${columnsSql})`);
+
+  const columns = (db.prepare(`PRAGMA table_info(${table}_rebuild)`).all() as { name: string }[])
+    .map((column) => column.name)
+    .filter((column) => hasColumn(db, table, column))
+    .join(', ');
+
+  db.exec(`INSERT INTO ${table}_rebuild (${columns}) SELECT ${columns} FROM ${table}`);
+  db.exec(`DROP TABLE ${table}`);
+  db.exec(`ALTER TABLE ${table}_rebuild RENAME TO ${table}`);
+
+  for (const index of indexes) {
+    db.exec(index.sql);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create notes and registered_keys',
+    up(db) {
+      // ZERO-KNOWLEDGE ASYMMETRIC ENCRYPTION:
+      // We store: ciphertext, nonce, ephemeralPublicKey
+      // Server CANNOT decrypt - only recipient's secret key can decrypt.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS notes (
+          id TEXT PRIMARY KEY,
+          ciphertext TEXT NOT NULL,
+          nonce TEXT NOT NULL,
+          ephemeralPublicKey TEXT NOT NULL,
+          recipientAddress TEXT NOT NULL,
+          createdAt INTEGER NOT NULL
+        )
+      `);
+
+      // Cleanup of old notes
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_notes_createdAt ON notes(createdAt)`);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS registered_keys (
+          walletAddress TEXT PRIMARY KEY,
+          encryptionPublicKey TEXT NOT NULL,
+          registeredAt INTEGER NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'add notes.selfDestruct',
+    up(db) {
+      addColumn(db, 'notes', 'selfDestruct', 'INTEGER NOT NULL DEFAULT 1');
+    },
+  },
+  {
+    version: 3,
+    name: 'add notes.maxReads',
+    up(db) {
+      addColumn(db, 'notes', 'maxReads', 'INTEGER');
+    },
+  },
+  {
+    version: 4,
+    name: 'add notes.currentReads',
+    up(db) {
+      addColumn(db, 'notes', 'currentReads', 'INTEGER NOT NULL DEFAULT 0');
+    },
+  },
+  {
+    version: 5,
+    name: 'create auth_challenges',
+    up(db) {
+      // Single-use nonces for wallet signatures
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS auth_challenges (
+          nonce TEXT PRIMARY KEY,
+          walletAddress TEXT NOT NULL,
+          createdAt INTEGER NOT NULL,
+          expiresAt INTEGER NOT NULL
+        )
+      `);
+
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_auth_challenges_expiresAt ON auth_challenges(expiresAt)`);
+    },
+  },
+  {
+    version: 6,
+    name: 'add notes.expiresAt',
+    up(db) {
+      addColumn(db, 'notes', 'expiresAt', 'INTEGER');
+
+      // The expiry sweeper
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_notes_expiresAt ON notes(expiresAt)`);
+    },
+  },
+  {
+    version: 7,
+    name: 'index notes.recipientAddress',
+    up(db) {
+      // Inbox listings
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_notes_recipientAddress ON notes(recipientAddress)`);
+    },
+  },
+  {
+    version: 8,
+    name: 'multi-recipient notes',
+    up(db) {
+      addColumn(db, 'notes', 'mode', `TEXT NOT NULL DEFAULT 'direct'`);
+
+      // recipientAddress is null for multi-recipient notes
+      if (isNotNull(db, 'notes', 'recipientAddress')) {
+        rebuildTable(db, 'notes', `
+          id TEXT PRIMARY KEY,
+          mode TEXT NOT NULL DEFAULT 'direct',
+          ciphertext TEXT NOT NULL,
+          nonce TEXT NOT NULL,
+          ephemeralPublicKey TEXT NOT NULL,
+          recipientAddress TEXT,
+          createdAt INTEGER NOT NULL,
+          selfDestruct INTEGER NOT NULL DEFAULT 1,
+          maxReads INTEGER,
+          currentReads INTEGER NOT NULL DEFAULT 0,
+          expiresAt INTEGER
+        `);
+      }
+
+      // Per-recipient wrapped keys and read budgets
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS note_recipients (
+          noteId TEXT NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+          recipientAddress TEXT NOT NULL,
+          wrappedKey TEXT NOT NULL,
+          wrapNonce TEXT NOT NULL,
+          currentReads INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (noteId, recipientAddress)
+        )
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_note_recipients_recipientAddress ON note_recipients(recipientAddress)
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'create attachments',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS attachments (
+          id TEXT PRIMARY KEY,
+          noteId TEXT REFERENCES notes(id) ON DELETE CASCADE,
+          status TEXT NOT NULL DEFAULT 'pending',
+          uploadToken TEXT NOT NULL,
+          chunkCount INTEGER NOT NULL,
+          createdAt INTEGER NOT NULL,
+          expiresAt INTEGER
+        )
+      `);
+
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_attachments_noteId ON attachments(noteId)`);
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_attachments_expiresAt ON attachments(expiresAt)`);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS attachment_chunks (
+          attachmentId TEXT NOT NULL REFERENCES attachments(id) ON DELETE CASCADE,
+          chunkIndex INTEGER NOT NULL,
+          data BLOB NOT NULL,
+          PRIMARY KEY (attachmentId, chunkIndex)
+        )
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'key versions and key_history',
+    up(db) {
+      addColumn(db, 'registered_keys', 'version', 'INTEGER NOT NULL DEFAULT 1');
+      addColumn(db, 'notes', 'keyVersion', 'INTEGER NOT NULL DEFAULT 1');
+      addColumn(db, 'note_recipients', 'keyVersion', 'INTEGER NOT NULL DEFAULT 1');
+
+      // Every key version a wallet has registered
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS key_history (
+          walletAddress TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          encryptionPublicKey TEXT NOT NULL,
+          registeredAt INTEGER NOT NULL,
+          PRIMARY KEY (walletAddress, version)
+        )
+      `);
+
+      // Keys registered before key_history existed become version 1
+      db.exec(`
+        INSERT OR IGNORE INTO key_history (walletAddress, version, encryptionPublicKey, registeredAt)
+        SELECT walletAddress, version, encryptionPublicKey, registeredAt FROM registered_keys
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'key revocation',
+    up(db) {
+      addColumn(db, 'key_history', 'revokedAt', 'INTEGER');
+      addColumn(db, 'key_history', 'revocationReason', 'TEXT');
+    },
+  },
+  {
+    version: 12,
+    name: 'key derivation schemes',
+    up(db) {
+      addColumn(db, 'registered_keys', 'scheme', 'INTEGER NOT NULL DEFAULT 1');
+      addColumn(db, 'key_history', 'scheme', 'INTEGER NOT NULL DEFAULT 1');
+    },
+  },
+  {
+    version: 13,
+    name: 'link-key notes',
+    up(db) {
+      addColumn(db, 'notes', 'accessHash', 'TEXT');
+
+      // ephemeralPublicKey is null for link notes
+      if (isNotNull(db, 'notes', 'ephemeralPublicKey')) {
+        rebuildTable(db, 'notes', `
+          id TEXT PRIMARY KEY,
+          mode TEXT NOT NULL DEFAULT 'direct',
+          ciphertext TEXT NOT NULL,
+          nonce TEXT NOT NULL,
+          ephemeralPublicKey TEXT,
+          recipientAddress TEXT,
+          createdAt INTEGER NOT NULL,
+          selfDestruct INTEGER NOT NULL DEFAULT 1,
+          maxReads INTEGER,
+          currentReads INTEGER NOT NULL DEFAULT 0,
+          expiresAt INTEGER,
+          keyVersion INTEGER NOT NULL DEFAULT 1,
+          accessHash TEXT
+        `);
+      }
+    },
+  },
+  {
+    version: 14,
+    name: 'create rate_limit_buckets',
+    up(db) {
+      // Token buckets per route and IP/wallet
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+          key TEXT PRIMARY KEY,
+          tokens REAL NOT NULL,
+          updatedAt INTEGER NOT NULL
+        )
+      `);
+
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updatedAt ON rate_limit_buckets(updatedAt)`);
+    },
+  },
+  {
+    version: 15,
+    name: 'proof-of-work stamps',
+    up(db) {
+      // Per-wallet inbound preferences
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS recipient_settings (
+          walletAddress TEXT PRIMARY KEY,
+          powDifficulty INTEGER NOT NULL DEFAULT 0,
+          updatedAt INTEGER NOT NULL
+        )
+      `);
+
+      // Single-use proof-of-work challenges
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pow_challenges (
+          challenge TEXT PRIMARY KEY,
+          createdAt INTEGER NOT NULL,
+          expiresAt INTEGER NOT NULL
+        )
+      `);
+
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_pow_challenges_expiresAt ON pow_challenges(expiresAt)`);
+    },
+  },
+  {
+    version: 16,
+    name: 'inbound policies',
+    up(db) {
+      addColumn(db, 'recipient_settings', 'inboundPolicy', `TEXT NOT NULL DEFAULT 'anyone'`);
+
+      // A recipient's allow-list or block-list
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS policy_senders (
+          walletAddress TEXT NOT NULL,
+          senderAddress TEXT NOT NULL,
+          PRIMARY KEY (walletAddress, senderAddress)
+        )
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: 'binary columns',
+    up(db) {
+      // Ciphertext, nonces, keys and hashes were base64 TEXT: declare them
+      // BLOB and decode every stored value in place
+      db.function('darknote_unbase64', (value: unknown) =>
+        typeof value === 'string' ? Buffer.from(value, 'base64') : value
+      );
+
+      rebuildTable(db, 'notes', `
+        id TEXT PRIMARY KEY,
+        mode TEXT NOT NULL DEFAULT 'direct',
+        ciphertext BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        ephemeralPublicKey BLOB,
+        recipientAddress TEXT,
+        createdAt INTEGER NOT NULL,
+        selfDestruct INTEGER NOT NULL DEFAULT 1,
+        maxReads INTEGER,
+        currentReads INTEGER NOT NULL DEFAULT 0,
+        expiresAt INTEGER,
+        keyVersion INTEGER NOT NULL DEFAULT 1,
+        accessHash BLOB
+      `);
+      db.exec(`
+        UPDATE notes SET
+          ciphertext = darknote_unbase64(ciphertext),
+          nonce = darknote_unbase64(nonce),
+          ephemeralPublicKey = darknote_unbase64(ephemeralPublicKey),
+          accessHash = darknote_unbase64(accessHash)
+      `);
+
+      rebuildTable(db, 'note_recipients', `
+        noteId TEXT NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+        recipientAddress TEXT NOT NULL,
+        wrappedKey BLOB NOT NULL,
+        wrapNonce BLOB NOT NULL,
+        currentReads INTEGER NOT NULL DEFAULT 0,
+        keyVersion INTEGER NOT NULL DEFAULT 1,
+        PRIMARY KEY (noteId, recipientAddress)
+      `);
+      db.exec(`
+        UPDATE note_recipients SET
+          wrappedKey = darknote_unbase64(wrappedKey),
+          wrapNonce = darknote_unbase64(wrapNonce)
+      `);
+
+      rebuildTable(db, 'registered_keys', `
+        walletAddress TEXT PRIMARY KEY,
+        encryptionPublicKey BLOB NOT NULL,
+        version INTEGER NOT NULL DEFAULT 1,
+        scheme INTEGER NOT NULL DEFAULT 1,
+        registeredAt INTEGER NOT NULL
+      `);
+      db.exec(`UPDATE registered_keys SET encryptionPublicKey = darknote_unbase64(encryptionPublicKey)`);
+
+      rebuildTable(db, 'key_history', `
+        walletAddress TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        encryptionPublicKey BLOB NOT NULL,
+        scheme INTEGER NOT NULL DEFAULT 1,
+        registeredAt INTEGER NOT NULL,
+        revokedAt INTEGER,
+        revocationReason TEXT,
+        PRIMARY KEY (walletAddress, version)
+      `);
+      db.exec(`UPDATE key_history SET encryptionPublicKey = darknote_unbase64(encryptionPublicKey)`);
+    },
+  },
+  {
+    version: 18,
+    name: 'idempotency keys',
+    up(db) {
+      // Note create requests made with an idempotency key - no foreign
+      // key, a retry must get its answer even after the note is burned
+      db.exec(`
+        CREATE TABLE idempotency_keys (
+          key TEXT PRIMARY KEY,
+          requestHash TEXT NOT NULL,
+          noteId TEXT NOT NULL,
+          noteExpiresAt INTEGER,
+          expiresAt INTEGER NOT NULL
+        )
+      `);
+
+      db.exec(`CREATE INDEX idx_idempotency_keys_expiresAt ON idempotency_keys(expiresAt)`);
+    },
+  },
+  {
+    version: 19,
+    name: 'scheduled notes',
+    up(db) {
+      addColumn(db, 'notes', 'unlockAt', 'INTEGER');
+    },
+  },
+  {
+    version: 20,
+    name: "dead man's switch notes",
+    up(db) {
+      addColumn(db, 'notes', 'switchOwner', 'TEXT');
+      addColumn(db, 'notes', 'checkInInterval', 'INTEGER');
+      addColumn(db, 'notes', 'releasedAt', 'INTEGER');
+      db.exec(`CREATE INDEX idx_notes_switchOwner ON notes(switchOwner)`);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * List migrations already applied to a database, oldest first
+ */
+export function getAppliedMigrations(db: Database.Database): AppliedMigration[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt INTEGER NOT NULL
+    )
+  `);
+
+  return db.prepare(`
+    SELECT * FROM schema_migrations ORDER BY version
+  `).all() as AppliedMigration[];
+}
+
+/**
+ * List migrations a database still needs, in the order they will run
+ * Throws if the database has a migration this build does not know, i.e.
+ * it was last opened by a newer version of DarkNote.
+ */
+export function getPendingMigrations(db: Database.Database): Migration[] {
+  const applied = getAppliedMigrations(db);
+
+  const unknown = applied.filter((migration) => migration.version > LATEST_SCHEMA_VERSION);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Database schema is at version ${unknown[unknown.length - 1].version}, ` +
+      `newer than this build supports (${LATEST_SCHEMA_VERSION}). Upgrade DarkNote to use this database.`
+    );
+  }
+
+  const appliedVersions = new Set(applied.map((migration) => migration.version));
+  return MIGRATIONS.filter((migration) => !appliedVersions.has(migration.version));
+}
+
+/**
+ * Apply every pending migration, each in its own IMMEDIATE transaction
+ *
+ * Foreign keys are switched off meanwhile - dropping a rebuilt table
+ * must not cascade to the rows that reference it - and checked before
+ * each migration commits. Returns the migrations that were applied.
+ */
+export function runMigrations(db: Database.Database): Migration[] {
+  const foreignKeys = db.pragma('foreign_keys', { simple: true }) as number;
+  db.pragma('foreign_keys = OFF');
+
+  try {
+    const applied: Migration[] = [];
+
+    for (const migration of getPendingMigrations(db)) {
+      const apply = db.transaction(() => {
+        // Another process may have applied it since we listed it
+        const done = db.prepare(`
+          SELECT 1 FROM schema_migrations WHERE version = ?
+        `).get(migration.version);
+        if (done) return false;
+
+        migration.up(db);
+
+        const violations = db.prepare(`PRAGMA foreign_key_check`).all();
+        if (violations.length > 0) {
+          throw new Error(`Migration ${migration.version} (${migration.name}) broke ${violations.length} foreign key(s)`);
+        }
+
+        db.prepare(`
+          INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)
+        `).run(migration.version, migration.name, Date.now());
+        return true;
+      });
+
+      if (apply.immediate()) {
+        applied.push(migration);
+      }
+    }
+
+    return applied;
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+  }
+}
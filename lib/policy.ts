@@ -0,0 +1,49 @@
+/**
+ * RECIPIENT INBOUND POLICIES
+ *
+ * A registered wallet chooses who may send it notes:
+ * - anyone: no restriction (default)
+ * - signed-only: the sender must identify with a wallet signature
+ * - allow-list: only the listed sender wallets
+ * - block-list: anyone except the listed sender wallets
+ *
+ * The server only knows a sender when POST /api/notes carries a wallet
+ * signature ('send-note'); anonymous notes pass only under 'anyone' and
+ * 'block-list'. Senders look the policy up with GET /api/keys/[address]
+ * so the UI can explain a rejection up front. The list itself stays
+ * private: whether a sender is on it is only answered to that sender,
+ * with a 'check-inbound-policy' signature.
+ *
+ * Shared by the server and the browser.
+ */
+
+export type InboundPolicy = 'anyone' | 'signed-only' | 'allow-list' | 'block-list';
+
+export const INBOUND_POLICIES: readonly InboundPolicy[] = ['anyone', 'signed-only', 'allow-list', 'block-list'];
+
+// Upper bound on the addresses in one allow-list or block-list
+export const MAX_POLICY_SENDERS = 100;
+
+/**
+ * Check a sender against a recipient's policy
+ *
+ * @param listed - Whether the sender is on the recipient's list
+ * @param senderAddress - Verified sender wallet, null if anonymous
+ * @returns Why the note is refused, or null if it is accepted
+ */
+export function checkInboundPolicy(
+  policy: InboundPolicy,
+  listed: boolean,
+  senderAddress: string | null
+): string | null {
+  switch (policy) {
+    case 'signed-only':
+      return senderAddress ? null : 'only accepts notes from identified senders';
+    case 'allow-list':
+      return senderAddress && listed ? null : 'only accepts notes from approved senders';
+    case 'block-list':
+      return senderAddress && listed ? 'does not accept notes from this sender' : null;
+    default:
+      return null;
+  }
+}
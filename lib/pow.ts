@@ -0,0 +1,73 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { decodeUTF8 } from 'tweetnacl-util';
+
+/**
+ * PROOF-OF-WORK STAMPS (hashcash-style)
+ *
+ * Anyone can POST a note, so notes may have to carry a stamp: a nonce
+ * such that SHA-256("DarkNote stamp:<challenge>:<nonce>") starts with
+ * `difficulty` zero bits. The challenge is issued by the server and is
+ * single-use, so a stamp cannot be precomputed or spent twice.
+ *
+ * The required difficulty is the server-wide minimum, raised by any
+ * recipient who asked for more. Each extra bit doubles the expected
+ * work (2^difficulty hashes on average).
+ *
+ * Shared by the server (verification) and the browser Web Worker that
+ * solves stamps (lib/pow.worker.ts).
+ */
+
+export const MAX_POW_DIFFICULTY = 32;
+
+export interface PowStamp {
+  challenge: string;
+  nonce: string;
+}
+
+function stampHash(challenge: string, nonce: string): Uint8Array {
+  return sha256(decodeUTF8(`DarkNote stamp:${challenge}:${nonce}`));
+}
+
+function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+/**
+ * Check that a stamp meets a difficulty (challenge validity is the
+ * caller's business)
+ */
+export function isValidStamp(stamp: PowStamp, difficulty: number): boolean {
+  if (!/^\d{1,20}$/.test(stamp.nonce)) return false;
+  return leadingZeroBits(stampHash(stamp.challenge, stamp.nonce)) >= difficulty;
+}
+
+/**
+ * Find a nonce for a challenge by brute force
+ *
+ * @param onProgress - Called every `progressInterval` attempts with the
+ *                     number of attempts so far
+ */
+export function solveStamp(
+  challenge: string,
+  difficulty: number,
+  onProgress?: (attempts: number) => void,
+  progressInterval: number = 50000
+): PowStamp {
+  for (let attempts = 0; ; attempts++) {
+    const nonce = String(attempts);
+    if (leadingZeroBits(stampHash(challenge, nonce)) >= difficulty) {
+      return { challenge, nonce };
+    }
+    if (onProgress && attempts % progressInterval === 0) {
+      onProgress(attempts);
+    }
+  }
+}
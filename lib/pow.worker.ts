@@ -0,0 +1,18 @@
+import { solveStamp } from '@/lib/pow';
+
+/**
+ * Web Worker that solves a proof-of-work stamp off the main thread
+ *
+ * In: { challenge, difficulty }
+ * Out: { type: 'progress', attempts } while working, then
+ *      { type: 'done', stamp }
+ */
+self.onmessage = (event: MessageEvent<{ challenge: string; difficulty: number }>) => {
+  const { challenge, difficulty } = event.data;
+
+  const stamp = solveStamp(challenge, difficulty, (attempts) => {
+    self.postMessage({ type: 'progress', attempts });
+  });
+
+  self.postMessage({ type: 'done', stamp });
+};
@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '@/lib/config';
+import { createMemoryStore, limitByIp, setRateLimitStore } from '@/lib/rateLimit';
+
+/**
+ * Per-IP limits, with and without a trusted proxy
+ */
+
+function request(forwardedFor?: string): NextRequest {
+  return new NextRequest('http://localhost/api/keys/policy', {
+    headers: forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor },
+  });
+}
+
+// register-key allows 20 requests per hour from one IP
+function spendBudget(forwardedFor: string): void {
+  for (let i = 0; i < 20; i++) {
+    expect(limitByIp(request(forwardedFor), 'register-key')).toBeNull();
+  }
+}
+
+const defaultTrustedProxies = config.trustedProxies;
+
+beforeEach(() => {
+  setRateLimitStore(createMemoryStore());
+});
+
+afterEach(() => {
+  config.trustedProxies = defaultTrustedProxies;
+});
+
+describe('limitByIp without a trusted proxy', () => {
+  it('ignores X-Forwarded-For and shares one budget', () => {
+    config.trustedProxies = 0;
+    spendBudget('203.0.113.7');
+
+    expect(limitByIp(request('198.51.100.1'), 'register-key')?.status).toBe(429);
+    expect(limitByIp(request(), 'register-key')?.status).toBe(429);
+  });
+});
+
+describe('limitByIp behind one proxy', () => {
+  beforeEach(() => {
+    config.trustedProxies = 1;
+  });
+
+  it('limits by the address the proxy appended', () => {
+    spendBudget('203.0.113.7');
+
+    expect(limitByIp(request('203.0.113.7'), 'register-key')?.status).toBe(429);
+    expect(limitByIp(request('198.51.100.1'), 'register-key')).toBeNull();
+  });
+
+  it('ignores entries the client sent itself', () => {
+    spendBudget('203.0.113.7');
+
+    expect(limitByIp(request('10.0.0.1, 203.0.113.7'), 'register-key')?.status).toBe(429);
+    expect(limitByIp(request('10.0.0.2,203.0.113.7'), 'register-key')?.status).toBe(429);
+  });
+
+  it('rejects requests without a client address', async () => {
+    const response = limitByIp(request(), 'register-key');
+
+    expect(response?.status).toBe(400);
+    expect(await response?.json()).toEqual({ error: 'Could not determine the client address' });
+    expect(limitByIp(request(' , '), 'register-key')?.status).toBe(400);
+  });
+});
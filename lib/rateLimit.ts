@@ -0,0 +1,272 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import { updateRateLimitBucket } from '@/lib/db';
+
+/**
+ * RATE LIMITING
+ *
+ * Token buckets per route, keyed by client IP and - once a route has
+ * verified a wallet signature - by wallet. A bucket holds up to `limit`
+ * tokens and refills at `limit` per `windowMs`; each request spends one.
+ *
+ * Routes call limitByIp() first thing, and limitByWallet() after
+ * verifyWalletAuth() succeeds (limiting by an unverified wallet header
+ * would let anyone exhaust someone else's budget). Both return a 429
+ * response to send back, or null to carry on.
+ *
+ * Buckets live in the store picked by DARKNOTE_RATE_LIMIT_STORE: SQLite
+ * (survives restarts) or memory, defaulting to the DARKNOTE_STORAGE backend.
+ */
+
+export type RateLimitedRoute =
+  | 'auth-challenge'
+  | 'pow-challenge'
+  | 'create-note'
+  | 'get-note'
+  | 'open-note'
+  | 'delete-note'
+  | 'list-inbox'
+  | 'list-switches'
+  | 'check-in-switch'
+  | 'cancel-switch'
+  | 'create-attachment'
+  | 'upload-chunk'
+  | 'download-chunk'
+  | 'lookup-key'
+  | 'register-key'
+  | 'revoke-key'
+  | 'set-pow-difficulty'
+  | 'set-inbound-policy'
+  | 'read-inbound-policy';
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const RATE_LIMITS: Record<RateLimitedRoute, { ip: RateLimitRule; wallet?: RateLimitRule }> = {
+  'auth-challenge': { ip: { limit: 60, windowMs: MINUTE_MS } },
+  // Each note needs at most one; solving is the expensive part anyway
+  'pow-challenge': { ip: { limit: 30, windowMs: 10 * MINUTE_MS } },
+  'create-note': {
+    ip: { limit: 30, windowMs: 10 * MINUTE_MS },
+    // Identified senders only (see lib/policy.ts)
+    wallet: { limit: 30, windowMs: 10 * MINUTE_MS },
+  },
+  'get-note': { ip: { limit: 120, windowMs: MINUTE_MS } },
+  'open-note': {
+    ip: { limit: 60, windowMs: MINUTE_MS },
+    wallet: { limit: 30, windowMs: MINUTE_MS },
+  },
+  'delete-note': {
+    ip: { limit: 60, windowMs: MINUTE_MS },
+    wallet: { limit: 30, windowMs: MINUTE_MS },
+  },
+  'list-inbox': {
+    ip: { limit: 30, windowMs: MINUTE_MS },
+    wallet: { limit: 20, windowMs: MINUTE_MS },
+  },
+  'list-switches': {
+    ip: { limit: 30, windowMs: MINUTE_MS },
+    wallet: { limit: 20, windowMs: MINUTE_MS },
+  },
+  'check-in-switch': {
+    ip: { limit: 60, windowMs: MINUTE_MS },
+    wallet: { limit: 30, windowMs: MINUTE_MS },
+  },
+  'cancel-switch': {
+    ip: { limit: 60, windowMs: MINUTE_MS },
+    wallet: { limit: 30, windowMs: MINUTE_MS },
+  },
+  'create-attachment': { ip: { limit: 50, windowMs: 10 * MINUTE_MS } },
+  // A maximum-size attachment is ~100 chunks, and a note can carry five
+  'upload-chunk': { ip: { limit: 1000, windowMs: 10 * MINUTE_MS } },
+  'download-chunk': { ip: { limit: 1000, windowMs: 10 * MINUTE_MS } },
+  // Lookups are cheap but enumerable; signed ones (?sender=) also
+  // spend the sender's budget
+  'lookup-key': {
+    ip: { limit: 60, windowMs: MINUTE_MS },
+    wallet: { limit: 30, windowMs: MINUTE_MS },
+  },
+  'register-key': {
+    ip: { limit: 20, windowMs: HOUR_MS },
+    wallet: { limit: 10, windowMs: HOUR_MS },
+  },
+  'revoke-key': {
+    ip: { limit: 20, windowMs: HOUR_MS },
+    wallet: { limit: 10, windowMs: HOUR_MS },
+  },
+  'set-pow-difficulty': {
+    ip: { limit: 20, windowMs: HOUR_MS },
+    wallet: { limit: 10, windowMs: HOUR_MS },
+  },
+  'set-inbound-policy': {
+    ip: { limit: 20, windowMs: HOUR_MS },
+    wallet: { limit: 10, windowMs: HOUR_MS },
+  },
+  'read-inbound-policy': {
+    ip: { limit: 30, windowMs: MINUTE_MS },
+    wallet: { limit: 20, windowMs: MINUTE_MS },
+  },
+};
+
+// A bucket idle for this long has fully refilled and can be forgotten
+export const RATE_LIMIT_MAX_WINDOW_MS = Math.max(
+  ...Object.values(RATE_LIMITS).flatMap((rules) => [rules.ip.windowMs, rules.wallet?.windowMs ?? 0])
+);
+
+/**
+ * Storage for token buckets
+ * take() spends one token from the bucket at key and returns 0, or
+ * returns how many milliseconds until a token is available.
+ */
+export interface RateLimitStore {
+  take(key: string, rule: RateLimitRule, now: number): number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Refill a bucket (a missing one starts full) and try to spend a token
+function spendToken(
+  bucket: Bucket | null,
+  rule: RateLimitRule,
+  now: number
+): { bucket: Bucket; retryAfterMs: number } {
+  const refillPerMs = rule.limit / rule.windowMs;
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const tokens = bucket ? Math.min(rule.limit, bucket.tokens + elapsed * refillPerMs) : rule.limit;
+
+  if (tokens >= 1) {
+    return { bucket: { tokens: tokens - 1, updatedAt: now }, retryAfterMs: 0 };
+  }
+  return { bucket: { tokens, updatedAt: now }, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) };
+}
+
+// Memory store: forget idle buckets once this many are held
+const MEMORY_STORE_PRUNE_SIZE = 10000;
+
+/**
+ * In-memory store, per process
+ */
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, Bucket>();
+
+  return {
+    take(key, rule, now) {
+      if (buckets.size >= MEMORY_STORE_PRUNE_SIZE) {
+        for (const [bucketKey, bucket] of buckets) {
+          if (now - bucket.updatedAt > RATE_LIMIT_MAX_WINDOW_MS) {
+            buckets.delete(bucketKey);
+          }
+        }
+      }
+
+      const result = spendToken(buckets.get(key) ?? null, rule, now);
+      buckets.set(key, result.bucket);
+      return result.retryAfterMs;
+    },
+  };
+}
+
+/**
+ * SQLite store, shared by every process using darknote.db
+ * Stale buckets are removed by the sweeper.
+ */
+export function createSqliteStore(): RateLimitStore {
+  return {
+    take(key, rule, now) {
+      let retryAfterMs = 0;
+      updateRateLimitBucket(key, (bucket) => {
+        const result = spendToken(bucket, rule, now);
+        retryAfterMs = result.retryAfterMs;
+        return { key, ...result.bucket };
+      });
+      return retryAfterMs;
+    },
+  };
+}
+
+// Survives hot reloads in dev so memory buckets are not reset on every edit
+const globalForRateLimit = globalThis as unknown as { darknoteRateLimitStore?: RateLimitStore };
+
+function getStore(): RateLimitStore {
+  if (!globalForRateLimit.darknoteRateLimitStore) {
+    globalForRateLimit.darknoteRateLimitStore =
+      config.rateLimitStore === 'memory' ? createMemoryStore() : createSqliteStore();
+  }
+  return globalForRateLimit.darknoteRateLimitStore;
+}
+
+/**
+ * Replace the store (e.g. with a custom backend)
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  globalForRateLimit.darknoteRateLimitStore = store;
+}
+
+// Budget key shared by every client when no proxy is trusted
+const UNKNOWN_CLIENT = 'unknown';
+
+/**
+ * Client IP as recorded by the trusted proxies in front of the app
+ * Entries left of the ones they appended to X-Forwarded-For come from
+ * the client and are ignored. Returns null for a request that did not
+ * pass through them.
+ */
+function getClientIp(request: NextRequest): string | null {
+  // Route handlers cannot see the socket address, and without a trusted
+  // proxy any X-Forwarded-For may be forged, so every client shares one
+  // budget
+  if (config.trustedProxies === 0) return UNKNOWN_CLIENT;
+
+  const forwardedFor = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  return forwardedFor[forwardedFor.length - config.trustedProxies] ?? null;
+}
+
+function limit(key: string, rule: RateLimitRule): NextResponse | null {
+  const retryAfterMs = getStore().take(key, rule, Date.now());
+  if (retryAfterMs === 0) return null;
+
+  return NextResponse.json(
+    { error: 'Too many requests, please try again later' },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) },
+    }
+  );
+}
+
+/**
+ * Spend one request from the client IP's budget for a route
+ * Returns a 429 response if the budget is spent (or a 400 if the client
+ * IP is unknown), otherwise null.
+ */
+export function limitByIp(request: NextRequest, route: RateLimitedRoute): NextResponse | null {
+  const ip = getClientIp(request);
+  if (!ip) {
+    return NextResponse.json({ error: 'Could not determine the client address' }, { status: 400 });
+  }
+
+  return limit(`${route}:ip:${ip}`, RATE_LIMITS[route].ip);
+}
+
+/**
+ * Spend one request from a verified wallet's budget for a route
+ * Routes without a per-wallet limit always return null.
+ */
+export function limitByWallet(route: RateLimitedRoute, walletAddress: string): NextResponse | null {
+  const rule = RATE_LIMITS[route].wallet;
+  if (!rule) return null;
+
+  return limit(`${route}:wallet:${walletAddress}`, rule);
+}
@@ -0,0 +1,67 @@
+import nacl from 'tweetnacl';
+import { config } from '@/lib/config';
+import { PowStamp, isValidStamp } from '@/lib/pow';
+import { getChallengeStore, getKeyStore } from '@/lib/storage';
+import { PowChallenge } from '@/lib/store';
+
+/**
+ * PROOF-OF-WORK STAMPS (server-side)
+ *
+ * 1. Client requests a challenge (GET /api/pow/challenge)
+ * 2. It looks up the difficulty its recipients require (GET /api/keys/...)
+ *    and solves a stamp in a Web Worker (see lib/pow.ts)
+ * 3. POST /api/notes calls verifyStamp() before storing the note, which
+ *    checks the difficulty and consumes the challenge
+ *
+ * Signed notes need a stamp too: wallets are free to create, so signing
+ * adds the sender's identity on top of the stamp rather than replacing it.
+ */
+
+// Solving at high difficulty can take a while
+const POW_CHALLENGE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Difficulty a note needs: the server-wide minimum, raised by any
+ * recipient that asked for more
+ */
+export function getRequiredDifficulty(recipientAddresses: string[]): number {
+  return Math.max(
+    config.powDifficulty,
+    ...recipientAddresses.map((address) => getKeyStore().getRecipientSettings(address).powDifficulty)
+  );
+}
+
+/**
+ * Issue a short-lived, single-use proof-of-work challenge
+ */
+export function issuePowChallenge(): PowChallenge {
+  const createdAt = Date.now();
+
+  return getChallengeStore().createPowChallenge({
+    challenge: Buffer.from(nacl.randomBytes(32)).toString('base64url'),
+    createdAt,
+    expiresAt: createdAt + POW_CHALLENGE_TTL_MS,
+  });
+}
+
+/**
+ * Verify a stamp from a request body against a difficulty
+ * The challenge is only consumed once the work checks out. Difficulty 0
+ * needs no stamp.
+ */
+export function verifyStamp(stamp: unknown, difficulty: number): boolean {
+  if (difficulty === 0) return true;
+
+  if (
+    typeof stamp !== 'object' || stamp === null ||
+    typeof (stamp as PowStamp).challenge !== 'string' ||
+    typeof (stamp as PowStamp).nonce !== 'string'
+  ) {
+    return false;
+  }
+
+  return (
+    isValidStamp(stamp as PowStamp, difficulty) &&
+    getChallengeStore().consumePowChallenge((stamp as PowStamp).challenge)
+  );
+}
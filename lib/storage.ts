@@ -0,0 +1,62 @@
+import { config } from '@/lib/config';
+import { createSqliteChallengeStore, createSqliteKeyStore, createSqliteNoteStore } from '@/lib/db';
+import { createMemoryChallengeStore, createMemoryKeyStore, createMemoryNoteStore } from '@/lib/memoryStore';
+import { ChallengeStore, KeyStore, Note, NoteStore } from '@/lib/store';
+
+/**
+ * STORAGE BACKEND
+ *
+ * Hands out the note, key and challenge stores picked by DARKNOTE_STORAGE:
+ * SQLite (default) or memory. See lib/store.ts for the contract both
+ * implement.
+ */
+
+// Survives hot reloads in dev so the memory backend is not wiped on every edit
+const globalForStorage = globalThis as unknown as {
+  darknoteNoteStore?: NoteStore;
+  darknoteKeyStore?: KeyStore;
+  darknoteChallengeStore?: ChallengeStore;
+};
+
+export function getNoteStore(): NoteStore {
+  if (!globalForStorage.darknoteNoteStore) {
+    globalForStorage.darknoteNoteStore =
+      config.storage === 'memory' ? createMemoryNoteStore() : createSqliteNoteStore();
+  }
+  return globalForStorage.darknoteNoteStore;
+}
+
+export function getKeyStore(): KeyStore {
+  if (!globalForStorage.darknoteKeyStore) {
+    globalForStorage.darknoteKeyStore =
+      config.storage === 'memory' ? createMemoryKeyStore() : createSqliteKeyStore();
+  }
+  return globalForStorage.darknoteKeyStore;
+}
+
+export function getChallengeStore(): ChallengeStore {
+  if (!globalForStorage.darknoteChallengeStore) {
+    globalForStorage.darknoteChallengeStore =
+      config.storage === 'memory' ? createMemoryChallengeStore() : createSqliteChallengeStore();
+  }
+  return globalForStorage.darknoteChallengeStore;
+}
+
+/**
+ * Replace the stores (e.g. with a custom backend)
+ */
+export function setStores(stores: { notes?: NoteStore; keys?: KeyStore; challenges?: ChallengeStore }): void {
+  if (stores.notes) globalForStorage.darknoteNoteStore = stores.notes;
+  if (stores.keys) globalForStorage.darknoteKeyStore = stores.keys;
+  if (stores.challenges) globalForStorage.darknoteChallengeStore = stores.challenges;
+}
+
+/**
+ * Check whether a wallet is a recipient of a note (any mode)
+ */
+export function isNoteRecipient(note: Note, walletAddress: string): boolean {
+  if (note.mode === 'multi') {
+    return getNoteStore().getNoteRecipient(note.id, walletAddress) !== null;
+  }
+  return note.recipientAddress === walletAddress;
+}
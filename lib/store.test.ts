@@ -0,0 +1,379 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { closeDb, createSqliteChallengeStore, createSqliteKeyStore, createSqliteNoteStore } from '@/lib/db';
+import { createMemoryChallengeStore, createMemoryKeyStore, createMemoryNoteStore } from '@/lib/memoryStore';
+import { generateNoteId } from '@/lib/crypto';
+import { ChallengeStore, isNoteLocked, KeyStore, Note, NoteStore } from '@/lib/store';
+
+/**
+ * Storage contract (lib/store.ts), run against every backend
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function newNote(overrides: Partial<Omit<Note, 'createdAt' | 'currentReads' | 'releasedAt'>> = {}) {
+  return {
+    id: generateNoteId(),
+    mode: 'direct' as const,
+    ciphertext: Buffer.from('ciphertext'),
+    nonce: Buffer.alloc(24, 1),
+    ephemeralPublicKey: Buffer.alloc(32, 2),
+    recipientAddress: 'recipient',
+    selfDestruct: true,
+    maxReads: null,
+    unlockAt: null,
+    expiresAt: Date.now() + HOUR_MS,
+    keyVersion: 1,
+    accessHash: null,
+    switchOwner: null,
+    checkInInterval: null,
+    ...overrides,
+  };
+}
+
+const backends: {
+  name: string;
+  create: () => { notes: NoteStore; keys: KeyStore; challenges: ChallengeStore };
+}[] = [
+  {
+    name: 'sqlite',
+    create: () => ({
+      notes: createSqliteNoteStore(),
+      keys: createSqliteKeyStore(),
+      challenges: createSqliteChallengeStore(),
+    }),
+  },
+  {
+    name: 'memory',
+    create: () => ({
+      notes: createMemoryNoteStore(),
+      keys: createMemoryKeyStore(),
+      challenges: createMemoryChallengeStore(),
+    }),
+  },
+];
+
+let tempDir: string;
+
+beforeAll(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'darknote-test-'));
+  process.chdir(tempDir);
+});
+
+afterAll(() => {
+  closeDb();
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe.each(backends)('$name backend', ({ create }) => {
+  const { notes, keys, challenges } = create();
+
+  describe('create and get', () => {
+    it('returns the stored note', () => {
+      const note = newNote({ maxReads: 3 });
+      const created = notes.createNote(note);
+
+      expect(created).toMatchObject({ id: note.id, currentReads: 0, releasedAt: null });
+      expect(notes.getNote(note.id)).toEqual(created);
+    });
+
+    it('refuses a taken note ID', () => {
+      const note = newNote();
+      notes.createNote(note);
+
+      expect(notes.createNote({ ...note, ciphertext: Buffer.from('other') })).toBeNull();
+      expect(notes.getNote(note.id)?.ciphertext).toEqual(note.ciphertext);
+    });
+
+    it('refuses a live idempotency key and remembers the request', () => {
+      const request = { key: generateNoteId(), requestHash: 'hash', expiresAt: Date.now() + HOUR_MS };
+      const first = newNote();
+
+      expect(notes.createNote(first, [], [], request)).not.toBeNull();
+      expect(notes.createNote(newNote(), [], [], request)).toBeNull();
+      expect(notes.getIdempotentRequest(request.key)).toEqual({
+        ...request,
+        noteId: first.id,
+        noteExpiresAt: first.expiresAt,
+      });
+    });
+
+    it('does not share stored bytes with the caller', () => {
+      const note = newNote();
+      notes.createNote(note);
+      note.ciphertext.fill(0);
+
+      expect(notes.getNote(note.id)?.ciphertext).toEqual(Buffer.from('ciphertext'));
+    });
+
+    it('returns null for an unknown note', () => {
+      expect(notes.getNote(generateNoteId())).toBeNull();
+    });
+  });
+
+  describe('read counting', () => {
+    it('burns a self-destructing note on its first read', () => {
+      const note = newNote();
+      notes.createNote(note);
+
+      expect(notes.openNote(note.id, null)).toMatchObject({ burned: true, note: { currentReads: 1 } });
+      expect(notes.getNote(note.id)).toBeNull();
+      expect(notes.openNote(note.id, null)).toBeNull();
+    });
+
+    it('grants exactly maxReads reads', () => {
+      const note = newNote({ maxReads: 3 });
+      notes.createNote(note);
+
+      const reads = [1, 2, 3, 4].map(() => notes.openNote(note.id, null));
+
+      expect(reads.map((read) => read?.burned)).toEqual([false, false, true, undefined]);
+      expect(reads[1]?.note.currentReads).toBe(2);
+      expect(notes.getNote(note.id)).toBeNull();
+    });
+
+    it('never burns a note without a budget', () => {
+      const note = newNote({ selfDestruct: false });
+      notes.createNote(note);
+
+      for (let read = 1; read <= 5; read++) {
+        expect(notes.openNote(note.id, null)).toMatchObject({ burned: false, note: { currentReads: read } });
+      }
+    });
+
+    it('keeps a separate budget per recipient of a multi-recipient note', () => {
+      const note = newNote({ mode: 'multi', recipientAddress: null });
+      const wrapped = { wrappedKey: Buffer.alloc(48, 3), wrapNonce: Buffer.alloc(24, 4), keyVersion: 1 };
+      notes.createNote(note, [
+        { recipientAddress: 'alice', ...wrapped },
+        { recipientAddress: 'bob', ...wrapped },
+      ]);
+
+      expect(notes.openNote(note.id, 'mallory')).toBeNull();
+      expect(notes.openNote(note.id, 'alice')).toMatchObject({ burned: true, recipient: { recipientAddress: 'alice' } });
+      expect(notes.openNote(note.id, 'alice')).toBeNull();
+      expect(notes.getNote(note.id)).not.toBeNull();
+
+      expect(notes.openNote(note.id, 'bob')).toMatchObject({ burned: true });
+      expect(notes.getNote(note.id)).toBeNull();
+    });
+
+    it('lists a note for its recipients with their own read counts', () => {
+      const note = newNote({ mode: 'multi', recipientAddress: null, maxReads: 2 });
+      const wrapped = { wrappedKey: Buffer.alloc(48, 3), wrapNonce: Buffer.alloc(24, 4) };
+      notes.createNote(note, [
+        { recipientAddress: 'carol', keyVersion: 2, ...wrapped },
+        { recipientAddress: 'dave', keyVersion: 1, ...wrapped },
+      ]);
+      notes.openNote(note.id, 'carol');
+
+      expect(notes.listNotesForRecipient('carol')).toMatchObject([{ id: note.id, currentReads: 1, keyVersion: 2 }]);
+      expect(notes.listNotesForRecipient('dave')).toMatchObject([{ id: note.id, currentReads: 0, keyVersion: 1 }]);
+    });
+
+    it('does not open a scheduled note before it unlocks', () => {
+      const note = newNote({ unlockAt: Date.now() + HOUR_MS, expiresAt: Date.now() + 2 * HOUR_MS });
+      notes.createNote(note);
+
+      expect(notes.openNote(note.id, null)).toBeNull();
+      expect(notes.getNote(note.id)?.currentReads).toBe(0);
+
+      vi.spyOn(Date, 'now').mockReturnValue(note.unlockAt! + 1);
+      expect(notes.openNote(note.id, null)).toMatchObject({ burned: true });
+    });
+  });
+
+  describe('delete', () => {
+    it('deletes a note once', () => {
+      const note = newNote();
+      notes.createNote(note);
+
+      expect(notes.deleteNote(note.id)).toBe(true);
+      expect(notes.deleteNote(note.id)).toBe(false);
+      expect(notes.getNote(note.id)).toBeNull();
+    });
+
+    it('deletes a multi-recipient note with its last recipient', () => {
+      const note = newNote({ mode: 'multi', recipientAddress: null });
+      const wrapped = { wrappedKey: Buffer.alloc(48, 3), wrapNonce: Buffer.alloc(24, 4), keyVersion: 1 };
+      notes.createNote(note, [
+        { recipientAddress: 'erin', ...wrapped },
+        { recipientAddress: 'frank', ...wrapped },
+      ]);
+
+      expect(notes.removeNoteRecipient(note.id, 'erin')).toBe(true);
+      expect(notes.getNoteRecipient(note.id, 'erin')).toBeNull();
+      expect(notes.getNote(note.id)).not.toBeNull();
+
+      expect(notes.removeNoteRecipient(note.id, 'frank')).toBe(true);
+      expect(notes.getNote(note.id)).toBeNull();
+    });
+  });
+
+  describe('expiry', () => {
+    it('treats an expired note as gone before it is swept', () => {
+      const note = newNote({ recipientAddress: 'grace' });
+      notes.createNote(note);
+      vi.spyOn(Date, 'now').mockReturnValue(note.expiresAt! + 1);
+
+      expect(notes.getNote(note.id)).toBeNull();
+      expect(notes.openNote(note.id, null)).toBeNull();
+      expect(notes.listNotesForRecipient('grace')).toEqual([]);
+    });
+
+    it('sweeps expired notes only', () => {
+      const expiring = newNote();
+      const lasting = newNote({ expiresAt: Date.now() + 10 * HOUR_MS });
+      notes.createNote(expiring);
+      notes.createNote(lasting);
+      vi.spyOn(Date, 'now').mockReturnValue(expiring.expiresAt! + 1);
+
+      expect(notes.deleteExpiredNotes()).toBeGreaterThanOrEqual(1);
+      vi.restoreAllMocks();
+      expect(notes.getNote(expiring.id)).toBeNull();
+      expect(notes.getNote(lasting.id)).not.toBeNull();
+    });
+
+    it('sweeps notes past the maximum retention from their creation', () => {
+      const note = newNote({ expiresAt: null });
+      const scheduled = newNote({ unlockAt: Date.now() + HOUR_MS, expiresAt: null });
+      notes.createNote(note);
+      notes.createNote(scheduled);
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * HOUR_MS);
+
+      expect(notes.deleteOldNotes(HOUR_MS)).toBeGreaterThanOrEqual(2);
+      expect(notes.getNote(note.id)).toBeNull();
+      expect(notes.getNote(scheduled.id)).toBeNull();
+    });
+
+    it("keeps dead man's switches past the maximum retention", () => {
+      const note = newNote({
+        unlockAt: Date.now() + HOUR_MS,
+        expiresAt: Date.now() + 4 * HOUR_MS,
+        switchOwner: 'owner',
+        checkInInterval: HOUR_MS,
+      });
+      notes.createNote(note);
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * HOUR_MS);
+
+      notes.deleteOldNotes(HOUR_MS);
+      expect(notes.getNote(note.id)).not.toBeNull();
+    });
+
+    it('forgets expired idempotency keys', () => {
+      const request = { key: generateNoteId(), requestHash: 'hash', expiresAt: Date.now() + HOUR_MS };
+      notes.createNote(newNote(), [], [], request);
+      vi.spyOn(Date, 'now').mockReturnValue(request.expiresAt + 1);
+
+      expect(notes.getIdempotentRequest(request.key)).toBeNull();
+      expect(notes.createNote(newNote(), [], [], request)).not.toBeNull();
+    });
+  });
+
+  describe("dead man's switches", () => {
+    function newSwitch() {
+      return newNote({
+        recipientAddress: 'ivan',
+        unlockAt: Date.now() + HOUR_MS,
+        expiresAt: Date.now() + 2 * HOUR_MS,
+        switchOwner: 'owner',
+        checkInInterval: HOUR_MS,
+      });
+    }
+
+    it('lets only its owner cancel it before the deadline', () => {
+      const note = newSwitch();
+      notes.createNote(note);
+
+      expect(notes.cancelSwitch(note.id, 'someone else')).toBe(false);
+      expect(notes.cancelSwitch(note.id, 'owner')).toBe(true);
+      expect(notes.getNote(note.id)).toBeNull();
+    });
+
+    it('refuses to cancel or check in once the deadline has passed, before it is released', () => {
+      const note = newSwitch();
+      notes.createNote(note);
+      vi.spyOn(Date, 'now').mockReturnValue(note.unlockAt! + 1);
+
+      expect(notes.cancelSwitch(note.id, 'owner')).toBe(false);
+      expect(notes.checkInSwitch(note.id, 'owner')).toBeNull();
+      expect(notes.getNote(note.id)?.releasedAt).toBeNull();
+      expect(isNoteLocked(notes.getNote(note.id)!)).toBe(false);
+    });
+  });
+
+  describe('keys', () => {
+    const key = (walletAddress: string, version: number) => ({
+      walletAddress,
+      encryptionPublicKey: Buffer.alloc(32, version),
+      version,
+      scheme: 2,
+    });
+
+    it('registers versions one at a time and keeps older ones', () => {
+      expect(keys.registerKey(key('henry', 2))).toBeNull();
+      expect(keys.registerKey(key('henry', 1))).toMatchObject({ version: 1, revokedAt: null });
+      expect(keys.registerKey(key('henry', 2))).toMatchObject({ version: 2 });
+
+      expect(keys.getRegisteredKey('henry')?.version).toBe(2);
+      expect(keys.getKeyVersion('henry', 1)?.encryptionPublicKey).toEqual(Buffer.alloc(32, 1));
+    });
+
+    it('revokes a key version once', () => {
+      keys.registerKey(key('iris', 1));
+
+      expect(keys.revokeKey('iris', 1, 'leaked')).toMatchObject({ revocationReason: 'leaked' });
+      expect(keys.revokeKey('iris', 1, 'leaked')).toBeNull();
+      expect(keys.getRegisteredKey('iris')?.revokedAt).not.toBeNull();
+    });
+
+    it('stores inbound policies and their sender lists', () => {
+      expect(keys.getRecipientSettings('jack')).toMatchObject({ inboundPolicy: 'anyone', powDifficulty: 0 });
+
+      keys.setInboundPolicy('jack', 'allow-list', ['zed', 'amy']);
+
+      expect(keys.getRecipientSettings('jack').inboundPolicy).toBe('allow-list');
+      expect(keys.getPolicySenders('jack')).toEqual(['amy', 'zed']);
+      expect(keys.isPolicySender('jack', 'amy')).toBe(true);
+      expect(keys.isPolicySender('jack', 'bob')).toBe(false);
+    });
+  });
+
+  describe('challenges', () => {
+    it('consumes an auth challenge once, for its own wallet only', () => {
+      const now = Date.now();
+      challenges.createAuthChallenge({ nonce: 'n1', walletAddress: 'kate', createdAt: now, expiresAt: now + HOUR_MS });
+
+      expect(challenges.consumeAuthChallenge('n1', 'liam')).toBe(false);
+      expect(challenges.consumeAuthChallenge('n1', 'kate')).toBe(true);
+      expect(challenges.consumeAuthChallenge('n1', 'kate')).toBe(false);
+    });
+
+    it('consumes a proof-of-work challenge once', () => {
+      const now = Date.now();
+      challenges.createPowChallenge({ challenge: 'c1', createdAt: now, expiresAt: now + HOUR_MS });
+
+      expect(challenges.consumePowChallenge('c1')).toBe(true);
+      expect(challenges.consumePowChallenge('c1')).toBe(false);
+      expect(challenges.consumePowChallenge('unknown')).toBe(false);
+    });
+
+    it('refuses and sweeps expired challenges', () => {
+      const now = Date.now();
+      challenges.createAuthChallenge({ nonce: 'n2', walletAddress: 'kate', createdAt: now, expiresAt: now + HOUR_MS });
+      challenges.createPowChallenge({ challenge: 'c2', createdAt: now, expiresAt: now + HOUR_MS });
+      vi.spyOn(Date, 'now').mockReturnValue(now + 2 * HOUR_MS);
+
+      expect(challenges.consumeAuthChallenge('n2', 'kate')).toBe(false);
+      expect(challenges.consumePowChallenge('c2')).toBe(false);
+      expect(challenges.deleteExpiredAuthChallenges()).toBeGreaterThanOrEqual(1);
+      expect(challenges.deleteExpiredPowChallenges()).toBeGreaterThanOrEqual(1);
+    });
+  });
+});
@@ -0,0 +1,432 @@
+import { InboundPolicy } from '@/lib/policy';
+
+/**
+ * STORAGE CONTRACT
+ *
+ * Notes (with their recipients and attachments) live in a NoteStore,
+ * encryption keys and recipient settings in a KeyStore, and auth and
+ * proof-of-work challenges in a ChallengeStore. Two backends implement
+ * all three:
+ * - SQLite (lib/db.ts): darknote.db, shared by every process using it
+ * - memory (lib/memoryStore.ts): per process, gone on restart - for
+ *   tests and ephemeral deployments
+ *
+ * Routes get the configured stores from lib/storage.ts. Every backend
+ * must behave the same; anything a caller may rely on is documented here.
+ *
+ * Binary fields (ciphertext, nonces, keys, hashes) are raw bytes. The API
+ * speaks base64: routes decode request fields before storing them and
+ * encode stored bytes into their responses, and nothing else converts.
+ *
+ * Rate-limit buckets are not part of this contract: lib/rateLimit.ts
+ * keeps them in its own store, which follows the storage backend unless
+ * DARKNOTE_RATE_LIMIT_STORE says otherwise.
+ */
+
+// How long a burned note's attachments remain downloadable
+export const ATTACHMENT_DOWNLOAD_WINDOW_MS = 10 * 60 * 1000;
+
+/**
+ * direct: ciphertext is a NaCl box to recipientAddress
+ * multi: ciphertext is a secretbox; the key is wrapped for each
+ *        recipient in note_recipients and recipientAddress is null
+ * link: ciphertext is a secretbox under a key carried in the link's URL
+ *       fragment; no recipientAddress or ephemeralPublicKey, and
+ *       accessHash gates who may open it
+ */
+export type NoteMode = 'direct' | 'multi' | 'link';
+
+export interface Note {
+  id: string;
+  mode: NoteMode;
+  ciphertext: Buffer;
+  nonce: Buffer;
+  ephemeralPublicKey: Buffer | null;
+  recipientAddress: string | null;
+  createdAt: number;
+  selfDestruct: boolean;
+  maxReads: number | null;
+  currentReads: number;
+  // Scheduled notes cannot be opened before unlockAt; their expiresAt
+  // counts from it, within the maximum retention from createdAt
+  unlockAt: number | null;
+  expiresAt: number | null;
+  // Recipient key version the note was encrypted to (direct notes)
+  keyVersion: number;
+  // Hash of the link access proof (link notes)
+  accessHash: Buffer | null;
+  // Dead man's switch notes: the wallet that must check in at least
+  // every checkInInterval ms. unlockAt is the next check-in deadline and
+  // moves with every check-in; the note stays sealed until a deadline
+  // passes, and releasedAt is set once the sweeper notices (see
+  // releaseOverdueSwitches)
+  switchOwner: string | null;
+  checkInInterval: number | null;
+  releasedAt: number | null;
+}
+
+/**
+ * Check whether a note cannot be opened yet: a scheduled note before its
+ * unlock time, or a dead man's switch before its check-in deadline
+ * A missed deadline releases a switch even before the sweeper does.
+ */
+export function isNoteLocked(note: Note, now: number = Date.now()): boolean {
+  if (note.switchOwner !== null && note.releasedAt !== null) return false;
+  return note.unlockAt !== null && note.unlockAt > now;
+}
+
+export interface NoteRecipient {
+  noteId: string;
+  recipientAddress: string;
+  wrappedKey: Buffer;
+  wrapNonce: Buffer;
+  currentReads: number;
+  keyVersion: number;
+}
+
+/**
+ * pending: chunks are being uploaded, not yet attached to a note
+ * attached: belongs to a live note, deleted together with it
+ * released: its note was burned by a read; kept until expiresAt so the
+ *           recipient can still download it
+ */
+export type AttachmentStatus = 'pending' | 'attached' | 'released';
+
+export interface Attachment {
+  id: string;
+  noteId: string | null;
+  status: AttachmentStatus;
+  uploadToken: string;
+  chunkCount: number;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+/**
+ * A wallet's current key, with every older version kept so notes
+ * encrypted to an older key stay decryptable
+ * A revoked key must not be encrypted to; its owner re-registers by
+ * rotating to the next version.
+ */
+export interface RegisteredKey {
+  walletAddress: string;
+  encryptionPublicKey: Buffer;
+  version: number;
+  // Derivation scheme that produced the key (see lib/crypto.ts)
+  scheme: number;
+  registeredAt: number;
+  revokedAt: number | null;
+  revocationReason: string | null;
+}
+
+/**
+ * A note create request made with an idempotency key
+ * Remembered until expiresAt, so a client retrying after a network
+ * failure gets the original note back instead of creating a duplicate.
+ */
+export interface IdempotentRequest {
+  key: string;
+  // Hash of the request, so a key reused for a different note is caught
+  requestHash: string;
+  noteId: string;
+  // The note's own expiresAt, replayed in the response
+  noteExpiresAt: number | null;
+  expiresAt: number;
+}
+
+export interface OpenNoteResult {
+  note: Note;
+  // Set for multi-recipient notes: the caller's wrapped key
+  recipient: NoteRecipient | null;
+  // True if this read used up the caller's last read
+  burned: boolean;
+}
+
+/**
+ * Per-wallet settings chosen by a recipient
+ */
+export interface RecipientSettings {
+  walletAddress: string;
+  // Minimum proof-of-work stamp difficulty for notes to this wallet
+  powDifficulty: number;
+  // Who may send notes to this wallet (see lib/policy.ts)
+  inboundPolicy: InboundPolicy;
+  updatedAt: number;
+}
+
+/**
+ * Single-use nonce a wallet signs to authenticate (see lib/auth.ts)
+ */
+export interface AuthChallenge {
+  nonce: string;
+  walletAddress: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Single-use proof-of-work challenge (see lib/stamps.ts)
+ */
+export interface PowChallenge {
+  challenge: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface NoteStore {
+  /**
+   * Create a new encrypted note
+   * Multi-recipient notes also store one wrapped key per recipient.
+   * Attachment IDs must refer to fully uploaded pending attachments
+   * (see isAttachmentReady); they are attached to the new note.
+   * With an idempotent request, the request is recorded in the same
+   * transaction.
+   * Returns null, creating nothing, if a note with the same ID or a
+   * request with the same idempotency key already exists.
+   */
+  createNote(
+    note: Omit<Note, 'createdAt' | 'currentReads' | 'releasedAt'>,
+    recipients?: Omit<NoteRecipient, 'noteId' | 'currentReads'>[],
+    attachmentIds?: string[],
+    request?: Omit<IdempotentRequest, 'noteId' | 'noteExpiresAt'>
+  ): Note | null;
+
+  /**
+   * Get a note by ID
+   * Expired notes are treated as already burned, even before the sweeper
+   * has removed them.
+   */
+  getNote(id: string): Note | null;
+
+  /**
+   * Get one recipient's wrapped key for a multi-recipient note
+   */
+  getNoteRecipient(noteId: string, recipientAddress: string): NoteRecipient | null;
+
+  /**
+   * List unexpired notes addressed to a wallet, newest first
+   * For multi-recipient notes currentReads and keyVersion are this
+   * wallet's own. Dead man's switch notes are left out until released.
+   */
+  listNotesForRecipient(recipientAddress: string): Note[];
+
+  /**
+   * List a wallet's unreleased, unexpired dead man's switch notes,
+   * newest first
+   */
+  listSwitchesForOwner(ownerAddress: string): Note[];
+
+  /**
+   * Check in on a dead man's switch: move its deadline (unlockAt) to
+   * checkInInterval from now, and its expiresAt by as much
+   * Returns the updated note, or null if the note is not an unreleased
+   * switch owned by ownerAddress or its deadline has already passed.
+   */
+  checkInSwitch(id: string, ownerAddress: string): Note | null;
+
+  /**
+   * Cancel a dead man's switch: delete the note before it is released
+   * Returns false if the note is not an unreleased switch owned by
+   * ownerAddress or its deadline has already passed.
+   */
+  cancelSwitch(id: string, ownerAddress: string): boolean;
+
+  /**
+   * Release dead man's switches whose deadline has passed, so their
+   * recipients can open them (background task - run periodically)
+   */
+  releaseOverdueSwitches(): number;
+
+  /**
+   * Open a note: check the read budget and consume one read atomically
+   *
+   * Concurrent opens can never grant more than maxReads reads. The note
+   * is burned when its budget is spent:
+   * - maxReads set: after maxReads reads
+   * - no maxReads + selfDestruct: after the first read
+   * - no maxReads + no selfDestruct: never
+   *
+   * Multi-recipient notes keep a separate budget per recipient. A
+   * recipient whose budget is spent loses their wrapped key; the note
+   * itself is deleted once no recipient has reads left. A burned note's
+   * attachments are released for ATTACHMENT_DOWNLOAD_WINDOW_MS.
+   *
+   * The caller must have checked that recipientAddress may open the note
+   * (for link notes, that the access proof matches; recipientAddress is
+   * null). Returns null if the note does not exist, is locked (see
+   * isNoteLocked) or has no reads left.
+   */
+  openNote(id: string, recipientAddress: string | null): OpenNoteResult | null;
+
+  /**
+   * Remove one recipient from a multi-recipient note
+   * Deletes the note itself when its last recipient is removed. Pass
+   * afterRead when the recipient just read the note, so its attachments
+   * stay downloadable for a short while.
+   */
+  removeNoteRecipient(noteId: string, recipientAddress: string, afterRead?: boolean): boolean;
+
+  /**
+   * Delete a note by ID, with its recipients and attached attachments
+   */
+  deleteNote(id: string): boolean;
+
+  /**
+   * Delete notes past their expiresAt (cleanup task - run periodically)
+   */
+  deleteExpiredNotes(): number;
+
+  /**
+   * Delete notes created more than maxAgeMs ago (cleanup task)
+   * Dead man's switches are exempt: they live as long as their owner
+   * checks in, and their expiresAt bounds them once released.
+   */
+  deleteOldNotes(maxAgeMs: number): number;
+
+  /**
+   * Create a pending attachment awaiting chunk uploads
+   */
+  createAttachment(attachment: Omit<Attachment, 'noteId' | 'status'>): Attachment;
+
+  /**
+   * Get an attachment by ID
+   * Expired attachments are treated as gone, even before the sweeper has
+   * removed them.
+   */
+  getAttachment(id: string): Attachment | null;
+
+  /**
+   * Store one encrypted chunk of an attachment, replacing any earlier
+   * upload of the same chunk
+   */
+  saveAttachmentChunk(attachmentId: string, chunkIndex: number, data: Buffer): void;
+
+  /**
+   * Get one encrypted chunk of an attachment
+   */
+  getAttachmentChunk(attachmentId: string, chunkIndex: number): Buffer | null;
+
+  /**
+   * Check that a pending attachment exists, matches its upload token and
+   * has every chunk uploaded, so it can be attached to a note
+   */
+  isAttachmentReady(id: string, uploadToken: string): boolean;
+
+  /**
+   * Get a recorded create request by its idempotency key
+   * Expired requests are treated as forgotten, even before the sweeper
+   * has removed them.
+   */
+  getIdempotentRequest(key: string): IdempotentRequest | null;
+
+  /**
+   * Delete expired idempotent requests (cleanup task - run periodically)
+   */
+  deleteExpiredIdempotentRequests(): number;
+
+  /**
+   * Delete expired attachments (cleanup task - run periodically)
+   * Covers uploads never attached to a note and released attachments
+   * whose download window has passed.
+   */
+  deleteExpiredAttachments(): number;
+}
+
+export interface KeyStore {
+  /**
+   * Register an encryption public key version for a wallet
+   *
+   * Versions only move forward one at a time: the first key is version 1
+   * and each rotation registers current + 1, keeping every older version.
+   * Re-registering the current key is a no-op, unless it has been revoked.
+   * Returns null if key.version is not the next version for this wallet.
+   */
+  registerKey(
+    key: Omit<RegisteredKey, 'registeredAt' | 'revokedAt' | 'revocationReason'>
+  ): RegisteredKey | null;
+
+  /**
+   * Get the current registered encryption public key for a wallet
+   * (including its revocation, if any)
+   */
+  getRegisteredKey(walletAddress: string): RegisteredKey | null;
+
+  /**
+   * Get one version of a wallet's encryption public key, current or older
+   */
+  getKeyVersion(walletAddress: string, version: number): RegisteredKey | null;
+
+  /**
+   * Revoke one version of a wallet's encryption key
+   * Returns the revoked key, or null if the version does not exist or is
+   * already revoked.
+   */
+  revokeKey(walletAddress: string, version: number, reason: string): RegisteredKey | null;
+
+  /**
+   * Get a wallet's recipient settings (defaults if it never set any)
+   */
+  getRecipientSettings(walletAddress: string): RecipientSettings;
+
+  /**
+   * Set the proof-of-work difficulty a wallet requires of its senders
+   */
+  setRecipientPowDifficulty(walletAddress: string, powDifficulty: number): RecipientSettings;
+
+  /**
+   * Set a wallet's inbound policy and replace its sender list
+   * The list is the allow-list or block-list, depending on the policy.
+   */
+  setInboundPolicy(
+    walletAddress: string,
+    inboundPolicy: InboundPolicy,
+    senderAddresses: string[]
+  ): RecipientSettings;
+
+  /**
+   * List the senders on a wallet's allow-list or block-list, sorted
+   */
+  getPolicySenders(walletAddress: string): string[];
+
+  /**
+   * Check whether a sender is on a wallet's allow-list or block-list
+   */
+  isPolicySender(walletAddress: string, senderAddress: string): boolean;
+}
+
+export interface ChallengeStore {
+  /**
+   * Store a new auth challenge nonce for a wallet
+   */
+  createAuthChallenge(challenge: AuthChallenge): AuthChallenge;
+
+  /**
+   * Consume an auth challenge nonce (single use)
+   * Returns false if the nonce is unknown, expired, already used or
+   * was issued to a different wallet.
+   */
+  consumeAuthChallenge(nonce: string, walletAddress: string): boolean;
+
+  /**
+   * Delete expired auth challenges
+   * Used nonces are deleted when consumed, so this only has to sweep
+   * nonces that were issued but never redeemed.
+   */
+  deleteExpiredAuthChallenges(): number;
+
+  /**
+   * Store a new proof-of-work challenge
+   */
+  createPowChallenge(challenge: PowChallenge): PowChallenge;
+
+  /**
+   * Consume a proof-of-work challenge (single use)
+   * Returns false if the challenge is unknown, expired or already used.
+   */
+  consumePowChallenge(challenge: string): boolean;
+
+  /**
+   * Delete expired proof-of-work challenges
+   */
+  deleteExpiredPowChallenges(): number;
+}
@@ -0,0 +1,65 @@
+import { config } from '@/lib/config';
+import { deleteStaleRateLimitBuckets } from '@/lib/db';
+import { getChallengeStore, getNoteStore } from '@/lib/storage';
+import { RATE_LIMIT_MAX_WINDOW_MS } from '@/lib/rateLimit';
+
+/**
+ * RETENTION SWEEPER
+ *
+ * Runs in-process on the Node.js server (started from instrumentation.ts).
+ * Each pass releases dead man's switch notes whose sender missed a
+ * check-in, then deletes:
+ * - notes past their expiresAt
+ * - notes older than the server-wide maximum retention (covers notes
+ *   created before expiresAt existed; dead man's switches are exempt)
+ * - auth and proof-of-work challenges that were issued but never redeemed
+ * - idempotency keys of note create requests past their retry window
+ * - attachments never attached to a note, or past the download window
+ *   after their note was burned (attachments of deleted notes go with them)
+ * - SQLite rate-limit buckets idle long enough to have refilled
+ */
+
+// Survives hot reloads in dev so we never run two sweepers
+const globalForSweeper = globalThis as unknown as { darknoteSweeper?: NodeJS.Timeout };
+
+/**
+ * Run one sweep pass
+ */
+export function sweep(): void {
+  try {
+    const notes = getNoteStore();
+    const released = notes.releaseOverdueSwitches();
+    const expired = notes.deleteExpiredNotes();
+    const old = notes.deleteOldNotes(config.maxRetentionMs);
+    const challenges = getChallengeStore();
+    challenges.deleteExpiredAuthChallenges();
+    challenges.deleteExpiredPowChallenges();
+    notes.deleteExpiredIdempotentRequests();
+    notes.deleteExpiredAttachments();
+    // The memory rate-limit store prunes itself
+    if (config.rateLimitStore === 'sqlite') {
+      deleteStaleRateLimitBuckets(RATE_LIMIT_MAX_WINDOW_MS);
+    }
+
+    if (released > 0) {
+      console.log(`Sweeper: released ${released} dead man's switch note(s)`);
+    }
+    if (expired + old > 0) {
+      console.log(`Sweeper: deleted ${expired} expired and ${old} over-retention note(s)`);
+    }
+  } catch (error) {
+    console.error('Sweeper failed:', error);
+  }
+}
+
+/**
+ * Start the periodic sweeper (idempotent)
+ */
+export function startSweeper(): void {
+  if (globalForSweeper.darknoteSweeper) return;
+
+  sweep();
+  globalForSweeper.darknoteSweeper = setInterval(sweep, config.sweepIntervalMs);
+  // Don't keep the process alive just for the sweeper
+  globalForSweeper.darknoteSweeper.unref();
+}
@@ -0,0 +1,259 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import fc from 'fast-check';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { GET as getAuthChallenge } from '@/app/api/auth/challenge/route';
+import { POST as createNote } from '@/app/api/notes/route';
+import { DELETE as deleteNote, GET as getNote } from '@/app/api/notes/[id]/route';
+import { POST as cancelSwitch } from '@/app/api/notes/[id]/cancel/route';
+import { POST as checkInSwitch } from '@/app/api/notes/[id]/check-in/route';
+import { POST as openNote } from '@/app/api/notes/[id]/open/route';
+import { POST as createAttachment } from '@/app/api/attachments/route';
+import { GET as downloadChunk, PUT as uploadChunk } from '@/app/api/attachments/[id]/chunks/[index]/route';
+import { GET as lookupKey } from '@/app/api/keys/[address]/route';
+import { POST as setInboundPolicy } from '@/app/api/keys/policy/route';
+import { POST as setPowDifficulty } from '@/app/api/keys/pow/route';
+import { POST as registerKey } from '@/app/api/keys/register/route';
+import { POST as revokeKey } from '@/app/api/keys/revoke/route';
+import { createMemoryChallengeStore, createMemoryKeyStore, createMemoryNoteStore } from '@/lib/memoryStore';
+import { setRateLimitStore } from '@/lib/rateLimit';
+import { setStores } from '@/lib/storage';
+
+/**
+ * Route input fuzzing (lib/validation.ts)
+ *
+ * Whatever a client sends, a route answers malformed input with the
+ * uniform 400 and never with a 500.
+ */
+
+const ADDRESS = '11111111111111111111111111111112';
+const MULTI_ADDRESSES = ['11111111111111111111111111111113', '11111111111111111111111111111114'];
+const NOTE_ID = 'AAAAAAAAAAAAAAAAAAAAAA';
+const base64Bytes = (length: number, fill = 1) => Buffer.alloc(length, fill).toString('base64');
+
+// The smallest padded envelope (see paddedLength in lib/crypto.ts) plus
+// the box/secretbox MAC
+const CIPHERTEXT = base64Bytes(256 + 16);
+
+// Promise<never> stands in for any route's params type
+type Handler = (request: NextRequest, context: { params: Promise<never> }) => Promise<Response>;
+
+function call(
+  handler: Handler,
+  options: { method?: string; body?: string; query?: Record<string, string>; params?: unknown } = {}
+): Promise<Response> {
+  const url = new URL('http://localhost/api/fuzz');
+  for (const [key, value] of Object.entries(options.query ?? {})) {
+    url.searchParams.set(key, value);
+  }
+
+  const request = new NextRequest(url, {
+    method: options.method ?? 'POST',
+    body: options.body,
+    headers: { 'x-forwarded-for': '127.0.0.1', 'content-type': 'application/json' },
+  });
+  return handler(request, { params: Promise.resolve(options.params ?? {}) as Promise<never> });
+}
+
+async function expectInvalidRequest(response: Response): Promise<void> {
+  expect(response.status).toBe(400);
+
+  const body = await response.json();
+  const entries = Object.entries(body.fields ?? {});
+  expect(entries.length).toBeGreaterThan(0);
+  for (const [, message] of entries) {
+    expect(typeof message).toBe('string');
+  }
+  expect(body.error).toBe(`Invalid request: ${entries[0][0]} ${entries[0][1]}`);
+}
+
+async function expectHandled(response: Response): Promise<void> {
+  expect(response.status).toBeLessThan(500);
+
+  const body = await response.clone().json().catch(() => null);
+  if (body?.fields !== undefined) await expectInvalidRequest(response);
+}
+
+// Bodies of every route that takes one, each with a valid example
+const bodyRoutes: { name: string; handler: Handler; valid: Record<string, unknown> }[] = [
+  {
+    name: 'POST /api/notes (direct)',
+    handler: createNote,
+    valid: {
+      mode: 'direct',
+      ciphertext: CIPHERTEXT,
+      nonce: base64Bytes(24),
+      ephemeralPublicKey: base64Bytes(32),
+      recipientAddress: ADDRESS,
+    },
+  },
+  {
+    name: 'POST /api/notes (multi)',
+    handler: createNote,
+    valid: {
+      mode: 'multi',
+      ciphertext: CIPHERTEXT,
+      nonce: base64Bytes(24),
+      ephemeralPublicKey: base64Bytes(32),
+      recipients: MULTI_ADDRESSES.map((address, index) => ({
+        address,
+        wrappedKey: base64Bytes(48, index + 1),
+        wrapNonce: base64Bytes(24, index + 1),
+      })),
+    },
+  },
+  {
+    name: 'POST /api/notes (link)',
+    handler: createNote,
+    valid: { mode: 'link', ciphertext: CIPHERTEXT, nonce: base64Bytes(24), accessHash: base64Bytes(32) },
+  },
+  { name: 'POST /api/attachments', handler: createAttachment, valid: { chunkCount: 1 } },
+  {
+    name: 'POST /api/keys/register',
+    handler: registerKey,
+    valid: { walletAddress: ADDRESS, encryptionPublicKey: base64Bytes(32), version: 1, scheme: 2 },
+  },
+  { name: 'POST /api/keys/revoke', handler: revokeKey, valid: { walletAddress: ADDRESS, version: 1 } },
+  { name: 'POST /api/keys/pow', handler: setPowDifficulty, valid: { walletAddress: ADDRESS, difficulty: 8 } },
+  {
+    name: 'POST /api/keys/policy',
+    handler: setInboundPolicy,
+    valid: { walletAddress: ADDRESS, inboundPolicy: 'allow-list', senders: [ADDRESS] },
+  },
+];
+
+// Dynamic segments of every route that has them, each with a valid example
+const paramRoutes: { name: string; handler: Handler; method: string; valid: Record<string, string> }[] = [
+  { name: 'GET /api/notes/[id]', handler: getNote, method: 'GET', valid: { id: NOTE_ID } },
+  { name: 'DELETE /api/notes/[id]', handler: deleteNote, method: 'DELETE', valid: { id: NOTE_ID } },
+  { name: 'POST /api/notes/[id]/open', handler: openNote, method: 'POST', valid: { id: NOTE_ID } },
+  { name: 'POST /api/notes/[id]/check-in', handler: checkInSwitch, method: 'POST', valid: { id: NOTE_ID } },
+  { name: 'POST /api/notes/[id]/cancel', handler: cancelSwitch, method: 'POST', valid: { id: NOTE_ID } },
+  {
+    name: 'PUT /api/attachments/[id]/chunks/[index]',
+    handler: uploadChunk,
+    method: 'PUT',
+    valid: { id: NOTE_ID, index: '0' },
+  },
+  {
+    name: 'GET /api/attachments/[id]/chunks/[index]',
+    handler: downloadChunk,
+    method: 'GET',
+    valid: { id: NOTE_ID, index: '0' },
+  },
+  { name: 'GET /api/keys/[address]', handler: lookupKey, method: 'GET', valid: { address: ADDRESS } },
+];
+
+// Any JSON value, including objects that reuse the valid field names
+function jsonWithKeys(keys: string[]) {
+  const { value } = fc.letrec((tie) => ({
+    value: fc.oneof(
+      { depthSize: 'small' },
+      fc.jsonValue({ maxDepth: 2 }),
+      fc.dictionary(fc.oneof(fc.constantFrom(...keys), fc.string()), tie('value'), { maxKeys: 5 })
+    ),
+  }));
+  return value;
+}
+
+let tempDir: string;
+
+beforeAll(() => {
+  // Nothing here should touch darknote.db, but keep it out of the tree if it does
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'darknote-test-'));
+  process.chdir(tempDir);
+
+  const keys = createMemoryKeyStore();
+  setStores({ notes: createMemoryNoteStore(), keys, challenges: createMemoryChallengeStore() });
+  setRateLimitStore({ take: () => 0 });
+
+  // Registered recipients, so valid notes get past validation to the route logic
+  for (const walletAddress of [ADDRESS, ...MULTI_ADDRESSES]) {
+    keys.registerKey({ walletAddress, encryptionPublicKey: Buffer.alloc(32, 1), version: 1, scheme: 2 });
+  }
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe.each(bodyRoutes)('$name', ({ handler, valid }) => {
+  const keys = Object.keys(valid);
+
+  it('accepts the valid example', async () => {
+    const response = await call(handler, { body: JSON.stringify(valid) });
+
+    expect(response.status).toBeLessThan(500);
+    expect((await response.json()).fields).toBeUndefined();
+  });
+
+  it('answers any text that is not a valid body with a 400', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.oneof(fc.string(), fc.jsonValue().map((value) => JSON.stringify(value))), async (body) => {
+        await expectInvalidRequest(await call(handler, { body }));
+      })
+    );
+  });
+
+  it('never fails on a valid body with one field changed or removed', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom(...keys),
+        fc.option(jsonWithKeys(keys), { nil: undefined }),
+        async (key, value) => {
+          const body = JSON.stringify({ ...valid, [key]: value });
+          await expectHandled(await call(handler, { body }));
+        }
+      )
+    );
+  });
+
+  it('rejects unknown fields with a 400', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.oneof(fc.constantFrom('__proto__', 'constructor', 'toString'), fc.string()).filter((key) => !keys.includes(key)),
+        fc.jsonValue({ maxDepth: 1 }),
+        async (key, value) => {
+          const body = JSON.stringify({ ...valid, [key]: value });
+          await expectInvalidRequest(await call(handler, { body }));
+        }
+      )
+    );
+  });
+});
+
+describe.each(paramRoutes)('$name', ({ handler, method, valid }) => {
+  it('answers malformed route params with a 400, and never fails', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom(...Object.keys(valid)), fc.string(), async (key, value) => {
+        const response = await call(handler, { method, params: { ...valid, [key]: value } });
+        await expectHandled(response);
+      })
+    );
+  });
+});
+
+describe('query strings', () => {
+  it('GET /api/auth/challenge answers a malformed address with a 400', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.dictionary(fc.string(), fc.string(), { maxKeys: 3 }), async (query) => {
+        fc.pre(query.address === undefined || query.address.length < 32);
+        await expectInvalidRequest(await call(getAuthChallenge, { method: 'GET', query }));
+      })
+    );
+  });
+
+  it('GET /api/keys/[address] never fails on any query', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.dictionary(fc.constantFrom('version', 'sender', 'other'), fc.string(), { maxKeys: 3 }),
+        async (query) => {
+          const response = await call(lookupKey, { method: 'GET', query, params: { address: ADDRESS } });
+          await expectHandled(response);
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,340 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+
+/**
+ * REQUEST VALIDATION
+ *
+ * Every API route describes its body, route params and query string with
+ * a schema built from the helpers below, and parses them before doing
+ * anything else. Input that does not match gets the same 400 response
+ * from every route, with one message per offending field:
+ *
+ *   {
+ *     "error": "Invalid request: nonce must be 24 bytes of base64",
+ *     "fields": { "nonce": "must be 24 bytes of base64" }
+ *   }
+ *
+ * Field names are paths into the input (`recipients[1].wrappedKey`).
+ * Objects are strict - unknown fields are rejected - and every field is
+ * checked, so `fields` lists all problems at once.
+ *
+ * Schemas only check shape. Rules that depend on stored state (revoked
+ * keys, uploaded attachments, inbound policies) stay in the routes.
+ */
+
+// Field path -> what is wrong with it
+export type FieldErrors = Record<string, string>;
+
+export interface Schema<T> {
+  // Field may be left out of its object
+  readonly optional: boolean;
+  // Returns the parsed value; on failure records an error and returns
+  // undefined, so only use the result once errors is known to be empty
+  parse(value: unknown, field: string, errors: FieldErrors): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type Parsed<T> = { ok: true; value: T } | { ok: false; response: NextResponse };
+
+function define<T>(parse: Schema<T>['parse']): Schema<T> {
+  return { optional: false, parse };
+}
+
+function fail<T>(errors: FieldErrors, field: string, message: string): T {
+  // Only the first problem with a field is reported
+  if (!Object.hasOwn(errors, field)) errors[field] = message;
+  return undefined as T;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function childField(field: string, key: string): string {
+  return field === 'body' ? key : `${field}.${key}`;
+}
+
+function describeRange(min: number, max: number): string {
+  if (max === Infinity) return `at least ${min}`;
+  if (min === 0) return `at most ${max}`;
+  return min === max ? `exactly ${min}` : `from ${min} to ${max}`;
+}
+
+/**
+ * A string, optionally bounded in length and matched against a pattern
+ */
+export function string(
+  options: { min?: number; max?: number; pattern?: RegExp; message?: string } = {}
+): Schema<string> {
+  const { min = 0, max = Infinity, pattern, message } = options;
+  return define((value, field, errors) => {
+    if (typeof value !== 'string') return fail(errors, field, 'must be a string');
+    if (value.length < min || value.length > max) {
+      return fail(errors, field, `must be ${describeRange(min, max)} characters long`);
+    }
+    if (pattern && !pattern.test(value)) return fail(errors, field, message ?? 'has an invalid format');
+    return value;
+  });
+}
+
+/**
+ * A safe integer within [min, max]
+ */
+export function integer(options: { min?: number; max?: number } = {}): Schema<number> {
+  const { min = Number.MIN_SAFE_INTEGER, max = Number.MAX_SAFE_INTEGER } = options;
+  return define((value, field, errors) => {
+    if (!Number.isSafeInteger(value) || (value as number) < min || (value as number) > max) {
+      return fail(errors, field, `must be an integer from ${min} to ${max}`);
+    }
+    return value as number;
+  });
+}
+
+/**
+ * A decimal integer within [min, max] carried as a string (route params
+ * and query strings)
+ */
+export function integerString(options: { min?: number; max?: number } = {}): Schema<number> {
+  const numeric = integer(options);
+  return define((value, field, errors) => {
+    if (typeof value !== 'string' || !/^\d{1,16}$/.test(value)) {
+      return fail(errors, field, 'must be a decimal integer');
+    }
+    return numeric.parse(Number(value), field, errors);
+  });
+}
+
+export function boolean(): Schema<boolean> {
+  return define((value, field, errors) => {
+    if (typeof value !== 'boolean') return fail(errors, field, 'must be true or false');
+    return value;
+  });
+}
+
+/**
+ * One of a fixed set of strings or numbers
+ */
+export function oneOf<const T extends string | number>(values: readonly T[]): Schema<T> {
+  return define((value, field, errors) => {
+    if (!values.includes(value as T)) return fail(errors, field, `must be one of: ${values.join(', ')}`);
+    return value as T;
+  });
+}
+
+/**
+ * Canonical (padded) base64, decoded to bytes
+ * `length` pins the decoded size; `check` adds any other rule on the bytes.
+ */
+export function base64(
+  options: { length?: number; check?: (bytes: Buffer) => boolean; message?: string } = {}
+): Schema<Buffer> {
+  const { length, check, message } = options;
+  return define((value, field, errors) => {
+    if (typeof value !== 'string' || value.length === 0) return fail(errors, field, 'must be base64');
+
+    // Buffer.from skips invalid characters - re-encoding catches them
+    const bytes = Buffer.from(value, 'base64');
+    if (bytes.toString('base64') !== value) return fail(errors, field, 'must be base64');
+
+    if (length !== undefined && bytes.length !== length) {
+      return fail(errors, field, `must be ${length} bytes of base64`);
+    }
+    if (check && !check(bytes)) return fail(errors, field, message ?? 'has an invalid value');
+    return bytes;
+  });
+}
+
+/**
+ * A Solana wallet address (base58 public key)
+ */
+export function solanaAddress(): Schema<string> {
+  return define((value, field, errors) => {
+    if (typeof value !== 'string') return fail(errors, field, 'must be a Solana address');
+    try {
+      new PublicKey(value);
+    } catch {
+      return fail(errors, field, 'must be a Solana address');
+    }
+    return value;
+  });
+}
+
+/**
+ * An ID from generateNoteId (lib/crypto.ts): 16 random bytes as
+ * unpadded base64url - used for notes and attachments
+ */
+export function generatedId(): Schema<string> {
+  return define((value, field, errors) => {
+    if (
+      typeof value !== 'string' ||
+      !/^[A-Za-z0-9_-]{22}$/.test(value) ||
+      Buffer.from(value, 'base64url').toString('base64url') !== value
+    ) {
+      return fail(errors, field, 'must be a 22-character base64url ID');
+    }
+    return value;
+  });
+}
+
+/**
+ * An array of min to max items
+ * `key` marks items that must be unique, e.g. by address.
+ */
+export function array<T>(
+  item: Schema<T>,
+  options: { min?: number; max?: number; key?: (item: T) => string } = {}
+): Schema<T[]> {
+  const { min = 0, max = Infinity, key } = options;
+  return define((value, field, errors) => {
+    if (!Array.isArray(value)) return fail(errors, field, 'must be an array');
+    if (value.length < min || value.length > max) {
+      return fail(errors, field, `must have ${describeRange(min, max)} items`);
+    }
+
+    const seen = new Set<string>();
+    return value.map((entry, index) => {
+      const itemField = `${field}[${index}]`;
+      const countBefore = Object.keys(errors).length;
+      const parsed = item.parse(entry, itemField, errors);
+
+      if (key && Object.keys(errors).length === countBefore) {
+        const itemKey = key(parsed);
+        if (seen.has(itemKey)) return fail(errors, itemField, 'is a duplicate');
+        seen.add(itemKey);
+      }
+      return parsed;
+    });
+  });
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+type ObjectOf<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+/**
+ * An object with exactly the fields in `shape`
+ * Missing fields must be marked optional; unknown fields are rejected.
+ */
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return define((value, field, errors) => {
+    if (!isRecord(value)) return fail(errors, field, 'must be an object');
+
+    const parsed: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const keyField = childField(field, key);
+      if (value[key] === undefined) {
+        parsed[key] = schema.optional ? schema.parse(undefined, keyField, errors) : fail(errors, keyField, 'is required');
+      } else {
+        parsed[key] = schema.parse(value[key], keyField, errors);
+      }
+    }
+
+    for (const key of Object.keys(value)) {
+      if (!Object.hasOwn(shape, key)) fail(errors, childField(field, key), 'is not allowed');
+    }
+
+    return parsed as ObjectOf<S>;
+  });
+}
+
+type Branches = Record<string, Schema<object>>;
+
+type VariantOf<K extends string, B extends Branches> = {
+  [M in keyof B & string]: Infer<B[M]> & { [P in K]: M };
+}[keyof B & string];
+
+/**
+ * An object whose `key` field picks which schema the rest of it follows
+ * (e.g. a note's mode); `fallback` is used when the field is left out
+ */
+export function variant<K extends string, B extends Branches>(
+  key: K,
+  branches: B,
+  fallback?: keyof B & string
+): Schema<VariantOf<K, B>> {
+  return define((value, field, errors) => {
+    if (!isRecord(value)) return fail(errors, field, 'must be an object');
+
+    const { [key]: tag = fallback, ...rest } = value;
+    if (typeof tag !== 'string' || !Object.hasOwn(branches, tag)) {
+      return fail(errors, childField(field, key), `must be one of: ${Object.keys(branches).join(', ')}`);
+    }
+
+    return { ...branches[tag].parse(rest, field, errors), [key]: tag } as VariantOf<K, B>;
+  });
+}
+
+/**
+ * Let a field be left out; it then parses to `fallback`
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined>;
+export function optional<T>(schema: Schema<T>, fallback: T): Schema<T>;
+export function optional<T>(schema: Schema<T>, fallback?: T): Schema<T | undefined> {
+  return {
+    optional: true,
+    parse: (value, field, errors) => (value === undefined ? fallback : schema.parse(value, field, errors)),
+  };
+}
+
+/**
+ * Let a value be null
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    optional: schema.optional,
+    parse: (value, field, errors) => (value === null ? null : schema.parse(value, field, errors)),
+  };
+}
+
+/**
+ * The uniform 400 response for invalid input
+ */
+export function invalidRequest(errors: FieldErrors): NextResponse {
+  const [field, message] = Object.entries(errors)[0];
+  return NextResponse.json(
+    { error: `Invalid request: ${field} ${message}`, fields: errors },
+    { status: 400 }
+  );
+}
+
+/**
+ * Parse a value against a schema
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): Parsed<T> {
+  // No prototype, so a field named like `__proto__` is still recorded
+  const errors: FieldErrors = Object.create(null);
+  const parsed = schema.parse(value, 'body', errors);
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, response: invalidRequest(errors) };
+  }
+  return { ok: true, value: parsed };
+}
+
+/**
+ * Parse a request's JSON body
+ */
+export async function parseBody<T>(request: NextRequest, schema: Schema<T>): Promise<Parsed<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { ok: false, response: invalidRequest({ body: 'must be valid JSON' }) };
+  }
+  return validate(schema, body);
+}
+
+/**
+ * Parse a request's query string (each parameter as a string)
+ */
+export function parseQuery<T>(request: NextRequest, schema: Schema<T>): Parsed<T> {
+  return validate(schema, Object.fromEntries(request.nextUrl.searchParams));
+}
+
+/**
+ * Parse a dynamic route's params
+ */
+export async function parseParams<T>(params: Promise<unknown>, schema: Schema<T>): Promise<Parsed<T>> {
+  return validate(schema, await params);
+}
@@ -0,0 +1,159 @@
+/**
+ * Storage benchmark: base64 TEXT columns vs BLOB columns
+ *
+ * Builds two throwaway databases with the notes table as it was before
+ * and after schema migration 17 (see lib/migrations.ts), fills each with
+ * the same notes and compares insert throughput, read throughput and
+ * file size. Both sides do the work the API routes do: the BLOB side
+ * decodes base64 from the request before inserting and encodes it again
+ * for the response.
+ *
+ * Usage: npm run benchmark:storage -- [noteCount]   (default 100000)
+ */
+
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const NOTE_COUNT = Number(process.argv[2] || 100000);
+const BATCH_SIZE = 1000;
+const READ_COUNT = Math.min(NOTE_COUNT, 50000);
+
+// Padded plaintext sizes notes actually have (see lib/crypto.ts), plus the
+// 16-byte MAC - most notes are short
+const CIPHERTEXT_SIZES = [272, 272, 272, 272, 336, 528, 784, 1296];
+
+const SCHEMAS = {
+  text: `
+    CREATE TABLE notes (
+      id TEXT PRIMARY KEY,
+      mode TEXT NOT NULL DEFAULT 'direct',
+      ciphertext TEXT NOT NULL,
+      nonce TEXT NOT NULL,
+      ephemeralPublicKey TEXT,
+      recipientAddress TEXT,
+      createdAt INTEGER NOT NULL,
+      expiresAt INTEGER
+    )
+  `,
+  blob: `
+    CREATE TABLE notes (
+      id TEXT PRIMARY KEY,
+      mode TEXT NOT NULL DEFAULT 'direct',
+      ciphertext BLOB NOT NULL,
+      nonce BLOB NOT NULL,
+      ephemeralPublicKey BLOB,
+      recipientAddress TEXT,
+      createdAt INTEGER NOT NULL,
+      expiresAt INTEGER
+    )
+  `,
+};
+
+// Same dataset for both runs: what POST /api/notes receives
+function makeNote(index) {
+  return {
+    id: crypto.randomBytes(16).toString('base64url'),
+    ciphertext: crypto.randomBytes(CIPHERTEXT_SIZES[index % CIPHERTEXT_SIZES.length]).toString('base64'),
+    nonce: crypto.randomBytes(24).toString('base64'),
+    ephemeralPublicKey: crypto.randomBytes(32).toString('base64'),
+    recipientAddress: crypto.randomBytes(32).toString('base64').slice(0, 44),
+  };
+}
+
+function run(kind, notes, dir) {
+  const file = path.join(dir, `${kind}.db`);
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMAS[kind]);
+
+  const decode = kind === 'blob' ? (value) => Buffer.from(value, 'base64') : (value) => value;
+  const encode = kind === 'blob' ? (value) => value.toString('base64') : (value) => value;
+
+  const insert = db.prepare(`
+    INSERT INTO notes (id, ciphertext, nonce, ephemeralPublicKey, recipientAddress, createdAt, expiresAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertBatch = db.transaction((batch) => {
+    for (const note of batch) {
+      insert.run(
+        note.id,
+        decode(note.ciphertext),
+        decode(note.nonce),
+        decode(note.ephemeralPublicKey),
+        note.recipientAddress,
+        Date.now(),
+        Date.now() + 86400000
+      );
+    }
+  });
+
+  let start = process.hrtime.bigint();
+  for (let offset = 0; offset < notes.length; offset += BATCH_SIZE) {
+    insertBatch(notes.slice(offset, offset + BATCH_SIZE));
+  }
+  const insertMs = Number(process.hrtime.bigint() - start) / 1e6;
+
+  const select = db.prepare(`SELECT * FROM notes WHERE id = ?`);
+  start = process.hrtime.bigint();
+  let responseBytes = 0;
+  for (let i = 0; i < READ_COUNT; i++) {
+    const row = select.get(notes[(i * 7919) % notes.length].id);
+    responseBytes += JSON.stringify({
+      id: row.id,
+      ciphertext: encode(row.ciphertext),
+      nonce: encode(row.nonce),
+      ephemeralPublicKey: encode(row.ephemeralPublicKey),
+    }).length;
+  }
+  const readMs = Number(process.hrtime.bigint() - start) / 1e6;
+
+  db.pragma('wal_checkpoint(TRUNCATE)');
+  db.close();
+
+  return {
+    insertsPerSecond: Math.round(notes.length / (insertMs / 1000)),
+    readsPerSecond: Math.round(READ_COUNT / (readMs / 1000)),
+    sizeBytes: fs.statSync(file).size,
+    responseBytes,
+  };
+}
+
+function formatMb(bytes) {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'darknote-bench-'));
+
+  try {
+    console.log(`Generating ${NOTE_COUNT} notes...`);
+    const notes = Array.from({ length: NOTE_COUNT }, (_, index) => makeNote(index));
+
+    const results = {};
+    for (const kind of ['text', 'blob']) {
+      console.log(`Running ${kind}...`);
+      results[kind] = run(kind, notes, dir);
+    }
+
+    if (results.text.responseBytes !== results.blob.responseBytes) {
+      throw new Error('TEXT and BLOB runs returned different responses');
+    }
+
+    console.log('');
+    console.log(`${NOTE_COUNT} notes, ${READ_COUNT} reads`);
+    console.log('                 TEXT (base64)    BLOB');
+    console.log(`inserts/s        ${String(results.text.insertsPerSecond).padEnd(16)} ${results.blob.insertsPerSecond}`);
+    console.log(`reads/s          ${String(results.text.readsPerSecond).padEnd(16)} ${results.blob.readsPerSecond}`);
+    console.log(`database size    ${formatMb(results.text.sizeBytes).padEnd(16)} ${formatMb(results.blob.sizeBytes)}`);
+    console.log(
+      `size saved       ${(100 * (1 - results.blob.sizeBytes / results.text.sizeBytes)).toFixed(1)}%`
+    );
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    // The SQLite backend opens darknote.db in the working directory, so
+    // each test file runs in its own process and can chdir to a temp dir
+    pool: 'forks',
+  },
+});